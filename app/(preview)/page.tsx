@@ -4,6 +4,8 @@
 import {
   AttachmentIcon,
   BotIcon,
+  ModeIcon,
+  ToolIcon,
   UserIcon,
   VercelIcon,
 } from "@/components/icons";
@@ -13,39 +15,31 @@ import { AnimatePresence, motion } from "framer-motion";
 import { toast } from "sonner";
 import Link from "next/link";
 import { Markdown } from "@/components/markdown";
+import { ChatSidebar } from "@/components/chat-sidebar";
+import { VoiceRecorder } from "@/components/voice-recorder";
 import { v4 as uuidv4 } from 'uuid';
-
-// File type validation - expanded to support more file types
-const ALLOWED_FILE_TYPES = [
-  // Images
-  'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml',
-  // Documents
-  'text/plain', 'text/csv', 'application/pdf', 'application/msword',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'application/vnd.ms-excel',
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-  // Data
-  'application/json', 'text/html', 'application/xml',
-  // Other common types
-  'application/zip', 'application/x-zip-compressed',
-  'audio/mpeg', 'audio/wav', 'video/mp4'
-];
-
-// Maximum file size (5MB)
-const MAX_FILE_SIZE = 5 * 1024 * 1024;
-
-// Message type definition
-type Message = {
-  id: string;
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-  status?: 'pending' | 'completed' | 'failed';
-  replicateStreamUrl?: string;
-  experimental_attachments?: Array<{
-    name: string;
-    contentType: string;
-    url: string;
-  }>;
+import type { Attachment, Chat, JobEvent, Message, MessageSource } from "@/lib/types";
+import { MAX_FILE_SIZE, validateFileMeta } from "@/lib/upload-policy";
+import { FileRejectedError, uploadFile } from "@/lib/upload-client";
+import { readTextStream } from "@/lib/stream-decoder";
+import { findLatestLeaf, getActivePath, getSiblings } from "@/lib/chat/tree";
+import { lastSentenceEnd, splitSpeechText } from "@/lib/speech/text";
+import { DEFAULT_MODE_ID, MODES, getMode, isToolAllowed } from "@/lib/modes";
+import type { Tool, ToolParams } from "@/lib/tools";
+import type { ModelInfo } from "@/lib/models";
+import {
+  escapeSlashCommands,
+  getCommandCompletion,
+  parseSlashCommands,
+  type CommandCompletion,
+  type SlashCommand,
+} from "@/lib/commands";
+
+// Load a stored chat, returning null if it does not exist
+const fetchChat = async (chatId: string): Promise<Chat | null> => {
+  const response = await fetch(`/api/chats/${encodeURIComponent(chatId)}`);
+  if (!response.ok) return null;
+  return response.json();
 };
 
 // For fetching text content from URLs
@@ -112,59 +106,105 @@ function FilePreview({ file }: { file: File }) {
   );
 }
 
-// Function to handle file uploads through Discord
-const processFilesToAttachments = async (files: FileList | null) => {
-  if (!files || files.length === 0) return [];
-  
-  const attachments = [];
-  
-  for (let i = 0; i < files.length; i++) {
-    const file = files[i];
-    
+// Mode, tool and tool settings typed as commands, used in place of the menu's
+type ReplySelection = { mode?: string; tool?: string; toolParams?: ToolParams };
+
+// Messages still waiting on a long-running job
+const isPendingJob = (m: Message) => m.status === 'pending' && Boolean(m.jobId);
+
+// Status polling is only a fallback for SSE, so it starts slow and backs off
+const POLL_INITIAL_DELAY = 5000;
+const POLL_MAX_DELAY = 60000;
+
+// Number of files uploaded at the same time
+const UPLOAD_CONCURRENCY = 3;
+
+// Function to upload files through the configured storage provider.
+// Returns the stored attachments, in file order, plus the messages for any
+// rejected files. `onProgress` receives each file's progress from 0 to 1.
+const processFilesToAttachments = async (
+  files: FileList | File[] | null,
+  onProgress: (index: number, fraction: number) => void = () => {}
+) => {
+  const errors: string[] = [];
+
+  if (!files || files.length === 0) return { attachments: [], errors };
+
+  const fileArray = Array.from(files);
+  const results: (Attachment | null)[] = new Array(fileArray.length).fill(null);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < fileArray.length) {
+      const index = next++;
+      const file = fileArray[index];
+
+      try {
+        results[index] = await uploadFile(file, (fraction) => onProgress(index, fraction));
+        onProgress(index, 1);
+      } catch (error) {
+        console.error('Error processing file:', error);
+        // Policy rejections carry the same message the composer shows
+        errors.push(error instanceof FileRejectedError ? error.message : `Failed to upload ${file.name}`);
+        // Continue with other files even if one fails
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(UPLOAD_CONCURRENCY, fileArray.length) }, worker));
+
+  return { attachments: results.filter((a): a is Attachment => a !== null), errors };
+};
+
+// Adds transcripts to uploaded voice notes so the caption shows right away.
+// The chat route transcribes anything still missing one.
+const transcribeAudioAttachments = (attachments: Attachment[]) =>
+  Promise.all(attachments.map(async (attachment) => {
+    if (!attachment.contentType.startsWith('audio/')) return attachment;
     try {
-      // Create FormData for each file
-      const formData = new FormData();
-      formData.append('file', file);
-      
-      // Upload to Discord via our API endpoint
-      const response = await fetch('/api/discord-upload', {
+      const response = await fetch('/api/transcribe', {
         method: 'POST',
-        body: formData,
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Upload failed: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      if (!data.url) {
-        throw new Error('No URL returned from upload');
-      }
-      
-      // Add the Discord CDN URL to attachments
-      attachments.push({
-        name: file.name,
-        contentType: file.type,
-        url: data.url // Discord CDN URL
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: attachment.url }),
       });
+      if (!response.ok) throw new Error(`Transcription failed: ${response.status}`);
+      const { text } = await response.json();
+      return { ...attachment, transcript: text };
     } catch (error) {
-      console.error('Error processing file:', error);
-      toast.error(`Failed to upload ${file.name}`);
-      // Continue with other files even if one fails
+      console.error('Error transcribing voice note:', error);
+      return attachment;
     }
-  }
-  
-  return attachments;
+  }));
+
+// Longest piece of a reply sent to /api/tts at once
+const SPEECH_CHUNK_LENGTH = 1000;
+
+// Reads text aloud through the TTS route, returning an object URL for the audio
+const synthesizeSpeech = async (text: string): Promise<string> => {
+  const response = await fetch('/api/tts', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text }),
+  });
+  if (!response.ok) throw new Error(`Speech synthesis failed: ${response.status}`);
+  return URL.createObjectURL(await response.blob());
 };
 
+// A reply read aloud: its audio clips in order, how many have played and
+// how many are still being synthesized
+type Speech = { clips: string[]; played: number; pending: number };
+
 // Custom iMessage-style Audio Player
 function CustomAudioPlayer({
   src,
   isUserMessage,
+  autoPlay = false,
+  onEnded,
 }: {
   src: string;
   isUserMessage: boolean;
+  autoPlay?: boolean;
+  onEnded?: () => void;
 }) {
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const progressRef = useRef<HTMLDivElement | null>(null);
@@ -191,6 +231,17 @@ function CustomAudioPlayer({
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  // Start playing right away when asked to. A blocked autoplay counts as
+  // finished so a queue of clips doesn't wait on it forever.
+  const onEndedRef = useRef(onEnded);
+  onEndedRef.current = onEnded;
+  useEffect(() => {
+    if (!autoPlay || !audioRef.current) return;
+    audioRef.current.play()
+      .then(() => setIsPlaying(true))
+      .catch(() => onEndedRef.current?.());
+  }, [autoPlay, src]);
+
   // Handle time and duration updates
   useEffect(() => {
     const audio = audioRef.current;
@@ -271,7 +322,14 @@ function CustomAudioPlayer({
 
   return (
     <div className={`w-full flex items-center gap-3 p-2 rounded-full ${isUserMessage ? 'bg-blue-500' : 'bg-zinc-200 dark:bg-zinc-800'}`}>
-      <audio ref={audioRef} src={src} onEnded={() => setIsPlaying(false)} />
+      <audio
+        ref={audioRef}
+        src={src}
+        onEnded={() => {
+          setIsPlaying(false);
+          onEnded?.();
+        }}
+      />
       <button
         onClick={togglePlayPause}
         className={`size-8 flex-shrink-0 flex items-center justify-center rounded-full transition-transform active:scale-90 ${themeClasses.buttonBg}`}
@@ -312,13 +370,234 @@ function CustomAudioPlayer({
   );
 }
 
+// Plays a reply's speech clips one after another, as they arrive
+function SpeechPlayer({ speech, onClipEnded }: { speech: Speech; onClipEnded: () => void }) {
+  if (speech.clips.length === 0) return null;
+  const current = Math.min(speech.played, speech.clips.length - 1);
+
+  return (
+    <div className="w-full max-w-[200px] pl-8 -mt-3">
+      <CustomAudioPlayer
+        key={current}
+        src={speech.clips[current]}
+        isUserMessage={false}
+        autoPlay={speech.played < speech.clips.length}
+        onEnded={onClipEnded}
+      />
+    </div>
+  );
+}
+
+// Autocomplete for slash commands typed into the composer, or the argument
+// hint for the command whose arguments are being typed
+function CommandPopover({
+  completion,
+  selectedIndex,
+  onSelect,
+}: {
+  completion: CommandCompletion;
+  selectedIndex: number;
+  onSelect: (command: SlashCommand) => void;
+}) {
+  if (completion.suggestions.length === 0) {
+    if (completion.query !== null || !completion.current?.hint) return null;
+    return (
+      <div className="absolute bottom-full left-0 right-0 mb-2 px-3 py-2 rounded-lg bg-zinc-800 text-xs text-zinc-300 font-mono truncate">
+        /{completion.current.name} {completion.current.hint}
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 py-1 rounded-lg bg-zinc-800 text-sm text-zinc-100 shadow-lg" role="listbox">
+      {completion.suggestions.map((command, index) => (
+        <button
+          key={command.name}
+          type="button"
+          role="option"
+          aria-selected={index === selectedIndex}
+          // Keep focus in the input while picking
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(command)}
+          className={`w-full px-3 py-1.5 flex items-baseline gap-3 text-left ${
+            index === selectedIndex ? 'bg-zinc-700' : 'hover:bg-zinc-700/50'
+          }`}
+        >
+          <span className="font-mono">/{command.name}</span>
+          <span className="text-xs text-zinc-400 truncate">{command.description}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Settings of the selected tool, rendered from its manifest entry.
+// Empty fields are left for the server to fill with defaults.
+function ToolParameterForm({
+  tool,
+  values,
+  onChange,
+}: {
+  tool: Tool;
+  values: ToolParams;
+  onChange: (values: ToolParams) => void;
+}) {
+  const fieldClass = "w-36 bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-sm text-zinc-100";
+
+  return (
+    <div className="flex flex-col gap-2 px-3 py-2">
+      {tool.parameters.map(parameter => (
+        <label key={parameter.id} className="flex items-center justify-between gap-3 text-sm">
+          <span className="text-zinc-400">{parameter.label}</span>
+          {parameter.type === 'select' ? (
+            <select
+              className={fieldClass}
+              value={values[parameter.id] ?? parameter.default ?? ''}
+              onChange={(e) => onChange({ ...values, [parameter.id]: e.target.value })}
+            >
+              {parameter.default === undefined && <option value="">Any</option>}
+              {parameter.options.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          ) : (
+            <input
+              className={fieldClass}
+              type={parameter.type === 'number' ? 'number' : 'text'}
+              {...(parameter.type === 'number'
+                ? { min: parameter.min, max: parameter.max, step: parameter.step ?? (parameter.integer ? 1 : 'any') }
+                : { maxLength: parameter.maxLength })}
+              value={values[parameter.id] ?? ''}
+              placeholder={parameter.default !== undefined ? String(parameter.default) : 'Any'}
+              onChange={(e) => onChange({ ...values, [parameter.id]: e.target.value })}
+            />
+          )}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// Numbered links to the documents a reply cites as [n], opening PDFs at the page
+function MessageSources({ sources }: { sources: MessageSource[] }) {
+  return (
+    <div className="mt-1 pt-1 border-t border-zinc-300 dark:border-zinc-700 text-xs flex flex-col gap-0.5">
+      <div className="opacity-70">Sources</div>
+      {sources.map((source, index) => (
+        <a
+          key={index}
+          href={source.page !== undefined ? `${source.url}#page=${source.page}` : source.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="hover:underline truncate"
+        >
+          [{index + 1}] {source.name}{source.page !== undefined && `, p. ${source.page}`}
+        </a>
+      ))}
+    </div>
+  );
+}
+
+// Branch switcher ("< 2/3 >") plus the edit, regenerate and speak actions under a bubble
+function MessageActions({
+  message,
+  siblings,
+  isBusy,
+  canAct,
+  canRegenerate,
+  isSynthesizing,
+  onSwitch,
+  onEdit,
+  onRegenerate,
+  onSpeak,
+}: {
+  message: Message;
+  siblings: Message[];
+  isBusy: boolean;
+  canAct: boolean;
+  canRegenerate: boolean;
+  isSynthesizing: boolean;
+  onSwitch: (messageId: string) => void;
+  onEdit: () => void;
+  onRegenerate: () => void;
+  onSpeak: () => void;
+}) {
+  const position = siblings.findIndex(m => m.id === message.id);
+  const canEdit = canAct && message.role === 'user' && Boolean(message.content);
+  const canSpeak = message.role === 'assistant' && Boolean(message.content) && message.status !== 'pending';
+
+  if (siblings.length < 2 && !canEdit && !(canAct && canRegenerate) && !canSpeak) return null;
+
+  return (
+    <div className={`w-full flex items-center gap-3 -mt-3 text-xs text-zinc-400 ${
+      message.role === 'user' ? 'justify-end' : 'justify-start pl-8'
+    }`}>
+      {siblings.length > 1 && (
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onSwitch(siblings[position - 1].id)}
+            disabled={position === 0 || isBusy}
+            className="px-1 hover:text-zinc-600 dark:hover:text-zinc-200 disabled:opacity-40"
+            aria-label="Previous version"
+          >
+            &lt;
+          </button>
+          <span>{position + 1}/{siblings.length}</span>
+          <button
+            onClick={() => onSwitch(siblings[position + 1].id)}
+            disabled={position === siblings.length - 1 || isBusy}
+            className="px-1 hover:text-zinc-600 dark:hover:text-zinc-200 disabled:opacity-40"
+            aria-label="Next version"
+          >
+            &gt;
+          </button>
+        </div>
+      )}
+      {canEdit && (
+        <button onClick={onEdit} className="hover:text-zinc-600 dark:hover:text-zinc-200 hover:underline">
+          Edit
+        </button>
+      )}
+      {canAct && canRegenerate && (
+        <button onClick={onRegenerate} className="hover:text-zinc-600 dark:hover:text-zinc-200 hover:underline">
+          Regenerate
+        </button>
+      )}
+      {canSpeak && (
+        <button
+          onClick={onSpeak}
+          disabled={isSynthesizing}
+          className="hover:text-zinc-600 dark:hover:text-zinc-200 hover:underline disabled:opacity-40 disabled:no-underline"
+        >
+          {isSynthesizing ? 'Speaking...' : 'Speak'}
+        </button>
+      )}
+    </div>
+  );
+}
+
 export default function Home() {
-  // Replace useChat with local state
+  // Replace useChat with local state. `messages` holds every branch of the
+  // conversation; the one on screen ends at `activeLeafId`.
   const [messages, setMessages] = useState<Message[]>([]);
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
+  const visibleMessages = getActivePath(messages, activeLeafId);
+  // User message being edited in place, with its draft text
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
   const [input, setInput] = useState<string>("");
+  // Slash command autocomplete: highlighted suggestion, and whether Escape closed the list
+  const [commandIndex, setCommandIndex] = useState(0);
+  const [isCommandMenuDismissed, setIsCommandMenuDismissed] = useState(false);
+  const commandCompletion = getCommandCompletion(input);
+  const commandSuggestions = isCommandMenuDismissed ? [] : commandCompletion.suggestions;
+  const selectedCommandIndex = Math.min(commandIndex, Math.max(commandSuggestions.length - 1, 0));
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  // Aborts the request in flight; set from sending until the reply has finished streaming
+  const [abortController, setAbortController] = useState<AbortController | null>(null);
 
   const [files, setFiles] = useState<FileList | null>(null);
+  // Per-file upload progress (0 to 1) while attachments are being sent
+  const [uploadProgress, setUploadProgress] = useState<number[] | null>(null);
   const [fileErrors, setFileErrors] = useState<string[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -326,104 +605,337 @@ export default function Home() {
   const [isDragging, setIsDragging] = useState(false);
   const [lightbox, setLightbox] = useState<{ url: string; type: 'image' | 'video' } | null>(null);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [currentChatId, setCurrentChatId] = useState<string | null>(null);
 
   // Reworked state for modes and tools
   const [activeTab, setActiveTab] = useState('modes');
-  const [activeMode, setActiveMode] = useState('wild'); // 'safe' or 'wild'
+  const [activeMode, setActiveMode] = useState(DEFAULT_MODE_ID); // id from the mode registry
+  const currentMode = getMode(activeMode);
+  // Tool manifest from /api/tools, and the settings chosen for each tool
+  const [tools, setTools] = useState<Tool[]>([]);
+  const [toolParams, setToolParams] = useState<Record<string, ToolParams>>({});
   const [activeTool, setActiveTool] = useState<string | null>(null); // 'image', 'video', 'audio', 'voice'
+  const currentTool = tools.find(tool => tool.id === activeTool);
+  // Model registry from /api/models; null keeps the server's default model
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [defaultModel, setDefaultModel] = useState<string | null>(null);
+  const [activeModel, setActiveModel] = useState<string | null>(null);
+  // Replies read aloud, by message id, and whether voice chat replies are read automatically
+  const [speech, setSpeech] = useState<Record<string, Speech>>({});
+  const [autoSpeak, setAutoSpeak] = useState(false);
+  // Last clip queued for each reply, so clips are added in order
+  const speechQueueRef = useRef<Record<string, Promise<void>>>({});
+  // Only replies on screen have a player that moves their playback along
+  const isSpeaking = visibleMessages.some(m => {
+    const s = speech[m.id];
+    return s !== undefined && (s.pending > 0 || s.played < s.clips.length);
+  });
+
+  // Rehydrate the stored conversation for this browser's chatId
+  useEffect(() => {
+    setAutoSpeak(localStorage.getItem('autoSpeak') === 'true');
+    try {
+      setToolParams(JSON.parse(localStorage.getItem('toolParams') || '{}'));
+    } catch {
+      // Unreadable settings just start over
+    }
+    fetch('/api/tools')
+      .then(response => response.json())
+      .then(data => setTools(data.tools || []))
+      .catch(error => console.error('Error loading tools:', error));
+    fetch('/api/models')
+      .then(response => response.json())
+      .then(data => {
+        setModels(data.models || []);
+        setDefaultModel(data.defaultModel ?? null);
+      })
+      .catch(error => console.error('Error loading models:', error));
+
+    const chatId = localStorage.getItem('chatId');
+    if (!chatId) return;
+    setCurrentChatId(chatId);
+
+    const loadChat = async () => {
+      try {
+        const chat = await fetchChat(chatId);
+        if (!chat) return;
+        setMessages(chat.messages);
+        setActiveLeafId(chat.activeLeafId ?? null);
+        if (chat.activeMode) setActiveMode(chat.activeMode);
+        setActiveTool(chat.activeTool ?? null);
+        setActiveModel(chat.activeModel ?? null);
+      } catch (error) {
+        console.error('Error loading chat history:', error);
+      }
+    };
+
+    loadChat();
+  }, []);
+
+  // Keep the latest messages reachable from timers and event handlers
+  const messagesRef = useRef<Message[]>(messages);
+  messagesRef.current = messages;
 
-  // Polling logic for long-running jobs
+  // Ids of jobs still waiting on a result; effects below restart only when this changes
+  const pendingJobKey = messages
+    .filter(isPendingJob)
+    .map(m => m.id)
+    .join(',');
+
+  // Push-based job completion: the server sends finished jobs over SSE
+  useEffect(() => {
+    if (!currentChatId || !pendingJobKey) return;
+
+    const events = new EventSource(`/api/chats/${encodeURIComponent(currentChatId)}/events`);
+    events.addEventListener('job', (e) => {
+      const event: JobEvent = JSON.parse((e as MessageEvent).data);
+      setMessages(prev => prev.map(m => {
+        if (m.id !== event.messageId) return m;
+        return event.message ? { ...event.message, parentId: m.parentId } : { ...m, progress: event.progress };
+      }));
+    });
+
+    return () => events.close();
+  }, [currentChatId, pendingJobKey]);
+
+  // Polling fallback for long-running jobs, backing off exponentially
   useEffect(() => {
-    const pendingMessages = messages.filter(m => m.status === 'pending' && m.replicateStreamUrl);
-    if (pendingMessages.length === 0) return;
+    if (!pendingJobKey) return;
+
+    let delay = POLL_INITIAL_DELAY;
+    let timeout: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+
+    const poll = async () => {
+      const pendingMessages = messagesRef.current.filter(isPendingJob);
 
-    const interval = setInterval(async () => {
       for (const message of pendingMessages) {
         try {
-          const response = await fetch(`/api/status?replicateStreamUrl=${encodeURIComponent(message.replicateStreamUrl!)}`);
+          const params = new URLSearchParams({ jobId: message.jobId! });
+          const response = await fetch(`/api/status?${params}`);
           const data = await response.json();
 
-          if (data.status === 'completed') {
+          if (data.status === 'completed' || data.status === 'cancelled') {
             // Update the message with the final result
             setMessages(prev => prev.map(m => 
-              m.id === message.id ? { ...data.result, id: message.id } : m
+              m.id === message.id ? { ...data.result, id: message.id, parentId: m.parentId } : m
             ));
           } else if (data.status === 'failed') {
             // Update the message to show an error
             setMessages(prev => prev.map(m => 
               m.id === message.id ? { ...m, status: 'failed', content: data.error } : m
             ));
+          } else if (data.progress !== undefined) {
+            // Still running; show how far along it is
+            setMessages(prev => prev.map(m => 
+              m.id === message.id ? { ...m, progress: data.progress } : m
+            ));
           }
-          // If 'processing', do nothing and wait for the next poll
         } catch (error) {
+          // Transient network errors just wait for the next, later poll
           console.error('Polling error:', error);
-          // Mark as failed on network error
-          setMessages(prev => prev.map(m => 
-            m.id === message.id ? { ...m, status: 'failed', content: 'Failed to get status.' } : m
-          ));
         }
       }
-    }, 10000); // Poll every 10 seconds
 
-    return () => clearInterval(interval);
-  }, [messages]);
+      if (cancelled) return;
+      delay = Math.min(delay * 2, POLL_MAX_DELAY);
+      timeout = setTimeout(poll, delay);
+    };
+
+    timeout = setTimeout(poll, delay);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [pendingJobKey]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setInput(e.target.value);
+    setCommandIndex(0);
+    setIsCommandMenuDismissed(false);
+  };
+
+  // Replaces the partly typed command with the chosen one
+  const completeCommand = (command: SlashCommand) => {
+    const query = commandCompletion.query ?? '';
+    setInput(`${input.slice(0, input.length - query.length - 1)}/${command.name} `);
+    setCommandIndex(0);
+    inputRef.current?.focus();
+  };
+
+  // Arrow keys move through the suggestions; Tab, or Enter on a partial command, picks one
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (commandSuggestions.length === 0) return;
+    const count = commandSuggestions.length;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setCommandIndex((selectedCommandIndex + (e.key === 'ArrowDown' ? 1 : count - 1)) % count);
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && !commandSuggestions.some(c => c.name === commandCompletion.query))) {
+      e.preventDefault();
+      completeCommand(commandSuggestions[selectedCommandIndex]);
+    } else if (e.key === 'Escape') {
+      setIsCommandMenuDismissed(true);
+    }
   };
 
   const handleSubmit = async (event: React.FormEvent, options?: { experimental_attachments?: FileList }) => {
     event.preventDefault();
-    
-    if (!input.trim() && (!options?.experimental_attachments || options.experimental_attachments.length === 0)) {
-      toast.error("Please enter a message or attach a file");
+    await submitComposer(Array.from(options?.experimental_attachments || []));
+  };
+
+  // Sends a recorded voice clip, along with anything typed or attached in the composer
+  const handleVoiceRecorded = (file: File) => {
+    submitComposer([...Array.from(files || []), file]);
+  };
+
+  // Runs any slash commands typed into the composer, then sends the rest
+  const submitComposer = async (pendingFiles: File[]) => {
+    const parsed = parseSlashCommands(input);
+    if (!parsed.ok) {
+      toast.error(parsed.error);
       return;
     }
+
+    const command = parsed.input;
+    if (command.action === 'new') {
+      startNewChat();
+      return;
+    }
+    if (command.action === 'export') {
+      exportChat();
+      setInput("");
+      return;
+    }
+    if (command.mode) selectMode(command.mode);
+
+    if (!command.text.trim() && pendingFiles.length === 0) {
+      // A command on its own changes the selection, like picking it from the menu
+      if (command.tool) {
+        setActiveTool(command.tool);
+        if (command.toolParams) updateToolParams(command.tool, { ...toolParams[command.tool], ...command.toolParams });
+      }
+      if (command.mode || command.tool) {
+        setInput("");
+      } else {
+        toast.error("Please enter a message or attach a file");
+      }
+      return;
+    }
+
+    await sendMessage(command.text, pendingFiles, command);
+  };
+
+  // Uploads any files, then sends the text and attachments as a new user message.
+  // `selection` holds a mode or tool typed as a command, used in place of the menu's.
+  const sendMessage = async (
+    text: string,
+    pendingFiles: FileList | File[] | null,
+    selection: ReplySelection = {}
+  ) => {
+    // Process attachments if provided, keeping the previews up to show progress
+    if (pendingFiles && pendingFiles.length > 0) {
+      setUploadProgress(new Array(pendingFiles.length).fill(0));
+    }
+    const uploaded = await processFilesToAttachments(pendingFiles, (index, fraction) => {
+      setUploadProgress(prev => prev && prev.map((p, i) => (i === index ? Math.min(fraction, 1) : p)));
+    });
+    const { errors } = uploaded;
+    const attachments = await transcribeAudioAttachments(uploaded.attachments);
+    setUploadProgress(null);
+    setFiles(null);
+    if (errors.length > 0) {
+      setFileErrors(errors);
+      toast.error(errors[0]);
+    }
+
+    // Nothing left to send if every attachment was rejected
+    if (!text.trim() && attachments.length === 0) return;
     
-    // Process attachments if provided
-    const attachments = await processFilesToAttachments(options?.experimental_attachments || null);
-    
-    // Create user message
+    // Create user message, continuing the conversation on screen
     const userMessage: Message = {
       id: uuidv4(),
       role: 'user',
-      content: input,
+      content: text,
+      parentId: visibleMessages[visibleMessages.length - 1]?.id ?? null,
       ...(attachments.length > 0 && { experimental_attachments: attachments })
     };
     
     // Update UI with user message
-    setMessages(prev => [...prev, userMessage]);
+    appendMessage(userMessage);
     setInput("");
+
+    await requestReply([...visibleMessages, userMessage], selection);
+  };
+
+  // Adds a message to the end of the branch on screen
+  const appendMessage = (message: Message) => {
+    setMessages(prev => [...prev, message]);
+    setActiveLeafId(message.id);
+  };
+
+  // Sends a conversation ending in a user message and adds the reply under it
+  const requestReply = async (history: Message[], selection: ReplySelection = {}) => {
+    const userMessage = history[history.length - 1];
     setIsLoading(true);
+
+    // A typed command wins over the menu; a menu tool the typed mode doesn't allow is dropped
+    const modeId = selection.mode ?? activeMode;
+    const toolId = selection.tool ?? (activeTool && isToolAllowed(getMode(modeId), activeTool) ? activeTool : null);
+    const toolValues = toolId ? { ...toolParams[toolId], ...(selection.tool && selection.toolParams) } : undefined;
+
+    const controller = new AbortController();
+    setAbortController(controller);
+    let assistantMessageId: string | null = null;
+    let receivedText = '';
+    let rejection: string | null = null;
+    // Voice chat replies are read aloud as they arrive when auto-speak is on
+    const shouldSpeak = autoSpeak && toolId === 'voice';
     
     try {
-      // Prepare the message payload
+      // Prepare the message payload: the conversation so far, ending with the new message.
+      // The server prefers its persisted copy and trims it to the context window.
       const payload = {
-        messages: [{
-          role: userMessage.role,
-          content: userMessage.content,
-          ...(userMessage.experimental_attachments && { experimental_attachments: userMessage.experimental_attachments })
-        }],
+        messages: history
+          .filter(m => m.status !== 'pending' && m.status !== 'failed' && m.status !== 'cancelled' && m.status !== 'blocked')
+          .map(m => ({
+            id: m.id,
+            role: m.role,
+            // Text that starts with a slash was not meant as a command
+            content: m.id === userMessage.id ? escapeSlashCommands(m.content) : m.content,
+            ...(m.parentId !== undefined && { parentId: m.parentId }),
+            ...(m.experimental_attachments && { experimental_attachments: m.experimental_attachments })
+          })),
         chatId: localStorage.getItem('chatId') || uuidv4(),
-        activeMode,
-        activeTool,
+        activeMode: modeId,
+        activeTool: toolId,
+        ...(toolValues && { toolParams: toolValues }),
+        ...(activeModel && { model: activeModel }),
       };
 
       // Store chatId for future messages
       if (!localStorage.getItem('chatId')) {
         localStorage.setItem('chatId', payload.chatId);
+        setCurrentChatId(payload.chatId);
       }
 
-      // Call the API route with just the latest message
+      // Call the API route
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(payload),
+        signal: controller.signal,
       });
 
       if (!response.ok) {
+        // Bad requests, such as an unknown slash command, and provider errors explain themselves
+        if (response.status === 400 || response.status === 502 || response.status === 503) {
+          rejection = (await response.json().catch(() => null))?.error || null;
+        }
         throw new Error(`API responded with status: ${response.status}`);
       }
       
@@ -434,93 +946,86 @@ export default function Home() {
         // Handle JSON response
         const data = await response.json();
         
-        if (data.status === 'pending' && data.replicateStreamUrl) {
+        if (data.status === 'pending' && data.jobId) {
           // This is a long-running job, show a placeholder
-          const pendingMessage: Message = {
-            id: uuidv4(),
+          appendMessage({
+            id: data.id || uuidv4(),
             role: 'assistant',
+            parentId: userMessage.id,
             status: 'pending',
-            replicateStreamUrl: data.replicateStreamUrl,
-            content: "Give me one second, Daddy...",
-          };
-          setMessages(prev => [...prev, pendingMessage]);
+            jobId: data.jobId,
+            content: data.content || getMode(modeId).copy.wait,
+          });
         } else {
           // This is a direct response
-          const assistantMessage: Message = {
-            id: uuidv4(),
+          const reply: Message = {
+            id: data.id || uuidv4(),
             role: 'assistant',
+            parentId: userMessage.id,
             content: data.content || data.text || "I received your message.",
             experimental_attachments: data.experimental_attachments || [],
+            ...(Array.isArray(data.sources) && data.sources.length > 0 && { sources: data.sources }),
+            // Refusals from a moderated mode
+            ...(data.status === 'blocked' && { status: 'blocked', moderation: data.moderation }),
           };
-          setMessages(prev => [...prev, assistantMessage]);
+          appendMessage(reply);
+          // A refused prompt is left out of later requests, as on the server
+          if (data.moderation?.stage === 'input') {
+            setMessages(prev => prev.map(m => (m.id === userMessage.id ? { ...m, status: 'blocked' } : m)));
+          }
+          // Replies that already come with audio don't need reading out
+          const hasAudio = reply.experimental_attachments?.some(a => a.contentType?.startsWith('audio/'));
+          if (shouldSpeak && !hasAudio) queueSpeech(reply.id, reply.content);
         }
-      } else if (contentType.includes('text/event-stream')) {
-        // Handle streaming response
-        const reader = response.body?.getReader();
-        if (!reader) throw new Error('Response body cannot be read as stream');
-        
-        // Create a temporary message with empty content
-        const assistantMessageId = uuidv4();
-        setMessages(prev => [...prev, {
-          id: assistantMessageId,
+      } else {
+        // Streamed reply: AI SDK data stream, OpenAI-style SSE or plain text
+        const streamId = response.headers.get('X-Message-Id') || uuidv4();
+        const sourcesHeader = response.headers.get('X-Message-Sources');
+        assistantMessageId = streamId;
+        appendMessage({
+          id: streamId,
           role: 'assistant',
+          parentId: userMessage.id,
           content: '',
-        }]);
-        
-        let responseText = '';
-        
-        // Process the stream
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          
-          // Convert the chunk to string
-          const chunk = new TextDecoder().decode(value);
-          
-          // Process SSE format (data: lines)
-          const lines = chunk.split('\n');
-          for (const line of lines) {
-            if (line.startsWith('data: ') && !line.includes('[DONE]')) {
-              try {
-                const data = JSON.parse(line.substring(6));
-                if (data.choices && data.choices[0]?.delta?.content) {
-                  responseText += data.choices[0].delta.content;
-                  
-                  // Update the message content with the latest chunk
-                  setMessages(prev => prev.map(m => 
-                    m.id === assistantMessageId ? 
-                    { ...m, content: responseText } : 
-                    m
-                  ));
-                }
-              } catch (err) {
-                console.warn('Error parsing SSE data:', err);
-              }
-            }
+          ...(sourcesHeader && { sources: JSON.parse(decodeURIComponent(sourcesHeader)) }),
+        });
+
+        // Speaking starts with the first complete sentence
+        let spokenUpTo = 0;
+        await readTextStream(response, (text) => {
+          receivedText = text;
+          // The bubble takes over from the typing indicator once text arrives
+          setIsLoading(false);
+          // Update the message content with the latest chunk
+          setMessages(prev => prev.map(m =>
+            m.id === streamId ? { ...m, content: text } : m
+          ));
+
+          const sentenceEnd = shouldSpeak ? lastSentenceEnd(text) : 0;
+          if (sentenceEnd > spokenUpTo) {
+            queueSpeech(streamId, text.slice(spokenUpTo, sentenceEnd));
+            spokenUpTo = sentenceEnd;
           }
+        });
+        if (shouldSpeak) queueSpeech(streamId, receivedText.slice(spokenUpTo));
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Stopped by the user: keep whatever text already arrived
+        const stoppedId = assistantMessageId;
+        if (stoppedId && !receivedText) {
+          setMessages(prev => prev.filter(m => m.id !== stoppedId));
+          setActiveLeafId(userMessage.id);
+        } else if (stoppedId) {
+          setMessages(prev => prev.map(m => (m.id === stoppedId ? { ...m, status: 'stopped' } : m)));
         }
       } else {
-        // Handle plain text or other response types
-        const text = await response.text();
-        let contentToShow = text;
-
-        if (text.startsWith('f:{"messageId":"')) {
-          contentToShow = "Sorry that text didn't come through. Can you send it again?";
-        }
-
-        const assistantMessage: Message = {
-          id: uuidv4(),
-          role: 'assistant',
-          content: contentToShow,
-        };
-        
-        setMessages(prev => [...prev, assistantMessage]);
+        console.error('Error sending message:', error);
+        toast.error(rejection || "Failed to send message. Please try again.");
       }
-    } catch (error) {
-      console.error('Error sending message:', error);
-      toast.error("Failed to send message. Please try again.");
     } finally {
       setIsLoading(false);
+      setAbortController(null);
 
       // Toggle off the tool after use, unless it's voice chat
       if (activeTool && activeTool !== 'voice') {
@@ -529,6 +1034,119 @@ export default function Home() {
     }
   };
 
+  // Synthesizes a reply, or the next part of a streaming one, and adds the
+  // audio to its clips. Pieces are synthesized in parallel but play in order.
+  const queueSpeech = (messageId: string, text: string) => {
+    for (const piece of splitSpeechText(text, SPEECH_CHUNK_LENGTH)) {
+      setSpeech(prev => {
+        const current = prev[messageId] || { clips: [], played: 0, pending: 0 };
+        return { ...prev, [messageId]: { ...current, pending: current.pending + 1 } };
+      });
+
+      const clip = synthesizeSpeech(piece).catch((error) => {
+        console.error('Error synthesizing speech:', error);
+        toast.error("Could not read that reply aloud");
+        return null;
+      });
+      const previous = speechQueueRef.current[messageId] || Promise.resolve();
+      speechQueueRef.current[messageId] = previous.then(async () => {
+        const url = await clip;
+        setSpeech(prev => {
+          const current = prev[messageId];
+          // The chat was closed while this piece was being synthesized
+          if (!current) {
+            if (url) URL.revokeObjectURL(url);
+            return prev;
+          }
+          return {
+            ...prev,
+            [messageId]: {
+              ...current,
+              clips: url ? [...current.clips, url] : current.clips,
+              pending: current.pending - 1,
+            },
+          };
+        });
+      });
+    }
+  };
+
+  // Reads a reply aloud, replaying the cached audio if it was spoken before
+  const speakMessage = (message: Message) => {
+    const cached = speech[message.id];
+    if (cached?.pending) return;
+    if (cached?.clips.length) {
+      setSpeech(prev => ({ ...prev, [message.id]: { ...cached, played: 0 } }));
+      return;
+    }
+    queueSpeech(message.id, message.content);
+  };
+
+  // Moves a reply's playback on to its next clip
+  const advanceSpeech = (messageId: string) => {
+    setSpeech(prev => {
+      const current = prev[messageId];
+      if (!current || current.played >= current.clips.length) return prev;
+      return { ...prev, [messageId]: { ...current, played: current.played + 1 } };
+    });
+  };
+
+  // Drops all speech audio, e.g. when another chat is opened
+  const clearSpeech = () => {
+    setSpeech(prev => {
+      Object.values(prev).forEach(s => s.clips.forEach(url => URL.revokeObjectURL(url)));
+      return {};
+    });
+    speechQueueRef.current = {};
+  };
+
+  const toggleAutoSpeak = () => {
+    localStorage.setItem('autoSpeak', String(!autoSpeak));
+    setAutoSpeak(!autoSpeak);
+  };
+
+  // Sends an edited prompt as a new branch beside the original
+  const submitEdit = async (original: Message) => {
+    const text = editing?.text.trim();
+    setEditing(null);
+    if (!text || text === original.content.trim()) return;
+
+    const index = visibleMessages.findIndex(m => m.id === original.id);
+    const edited: Message = {
+      id: uuidv4(),
+      role: 'user',
+      content: text,
+      parentId: index > 0 ? visibleMessages[index - 1].id : null,
+      ...(original.experimental_attachments && { experimental_attachments: original.experimental_attachments }),
+    };
+
+    appendMessage(edited);
+    await requestReply([...visibleMessages.slice(0, index), edited]);
+  };
+
+  // Asks again for the prompt behind a reply, adding a new branch beside it
+  const regenerate = async (reply: Message) => {
+    const index = visibleMessages.findIndex(m => m.id === reply.id);
+    const prompt = visibleMessages[index - 1];
+    if (!prompt || prompt.role !== 'user') return;
+
+    setActiveLeafId(prompt.id);
+    await requestReply(visibleMessages.slice(0, index));
+  };
+
+  // Shows another alternative at a message's position and remembers the choice
+  const switchBranch = (siblingId: string) => {
+    const leafId = findLatestLeaf(messagesRef.current, siblingId);
+    setActiveLeafId(leafId);
+
+    if (!currentChatId) return;
+    fetch(`/api/chats/${encodeURIComponent(currentChatId)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ activeLeafId: leafId }),
+    }).catch(error => console.error('Error saving branch choice:', error));
+  };
+
   const handlePaste = (event: React.ClipboardEvent) => {
     const items = event.clipboardData?.items;
     if (!items) return;
@@ -553,10 +1171,11 @@ export default function Home() {
     const errors: string[] = [];
 
     for (const file of fileArray) {
-      if (validateFile(file)) {
-        validFiles.push(file);
+      const error = validateFileMeta(file);
+      if (error) {
+        errors.push(error.message);
       } else {
-        errors.push(getFileValidationError(file));
+        validFiles.push(file);
       }
     }
 
@@ -574,34 +1193,6 @@ export default function Home() {
     }
   };
 
-  // File validation helper
-  const validateFile = (file: File): boolean => {
-    // Check file type if we're restricting based on ALLOWED_FILE_TYPES
-    if (ALLOWED_FILE_TYPES.length > 0 && !ALLOWED_FILE_TYPES.includes(file.type)) {
-      return false;
-    }
-    
-    // Check file size
-    if (file.size > MAX_FILE_SIZE) {
-      return false;
-    }
-    
-    return true;
-  };
-
-  // Get validation error message
-  const getFileValidationError = (file: File): string => {
-    if (file.size > MAX_FILE_SIZE) {
-      return `${file.name}: File too large (max ${MAX_FILE_SIZE / 1024 / 1024}MB)`;
-    }
-    
-    if (ALLOWED_FILE_TYPES.length > 0 && !ALLOWED_FILE_TYPES.includes(file.type)) {
-      return `${file.name}: File type not supported`;
-    }
-    
-    return `${file.name}: Unknown error`;
-  };
-
   const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     setIsDragging(true);
@@ -652,8 +1243,12 @@ export default function Home() {
   const startNewChat = () => {
     // Clear messages
     setMessages([]);
+    setActiveLeafId(null);
+    setEditing(null);
+    clearSpeech();
     // Clear chat ID in localStorage
     localStorage.removeItem('chatId');
+    setCurrentChatId(null);
     // Clear any pending files
     setFiles(null);
     setFileErrors([]);
@@ -661,6 +1256,101 @@ export default function Home() {
     setInput("");
   };
 
+  // Function to switch to a stored chat from the sidebar
+  const selectChat = async (chatId: string) => {
+    setIsSidebarOpen(false);
+    if (chatId === currentChatId) return;
+
+    try {
+      const chat = await fetchChat(chatId);
+      if (!chat) {
+        toast.error("That chat no longer exists");
+        return;
+      }
+
+      localStorage.setItem('chatId', chat.id);
+      setCurrentChatId(chat.id);
+      setMessages(chat.messages);
+      setActiveLeafId(chat.activeLeafId ?? null);
+      setEditing(null);
+      clearSpeech();
+      setActiveMode(chat.activeMode || DEFAULT_MODE_ID);
+      setActiveTool(chat.activeTool ?? null);
+      setActiveModel(chat.activeModel ?? null);
+      setFiles(null);
+      setFileErrors([]);
+      setInput("");
+    } catch (error) {
+      console.error('Error switching chat:', error);
+      toast.error("Could not open that chat");
+    }
+  };
+
+  // Function to stop a long-running job from its pending bubble
+  const cancelPendingJob = async (message: Message) => {
+    try {
+      const response = await fetch(`/api/jobs/${encodeURIComponent(message.jobId!)}/cancel`, { method: 'POST' });
+      const data = await response.json();
+
+      // A job that finished in the meantime comes back with its final message
+      if (data.message) {
+        setMessages(prev => prev.map(m => (m.id === message.id ? { ...data.message, parentId: m.parentId } : m)));
+      }
+      if (!response.ok && response.status !== 409) {
+        throw new Error(data.error || `Cancel failed: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Error cancelling job:', error);
+      toast.error("Could not cancel that request");
+    }
+  };
+
+  // Downloads the conversation on screen as a Markdown file
+  const exportChat = () => {
+    if (visibleMessages.length === 0) {
+      toast.error("There is nothing to export yet");
+      return;
+    }
+
+    const markdown = visibleMessages.map(m => {
+      const attachments = (m.experimental_attachments || []).map(a => `- [${a.name}](${a.url})`);
+      return [`**${m.role === 'user' ? 'You' : 'Assistant'}:** ${m.content}`, ...attachments].join('\n');
+    }).join('\n\n');
+
+    const url = URL.createObjectURL(new Blob([markdown], { type: 'text/markdown' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `chat-${new Date().toISOString().slice(0, 10)}.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Remembers a tool's settings across reloads
+  const updateToolParams = (toolId: string, values: ToolParams) => {
+    const next = { ...toolParams, [toolId]: values };
+    setToolParams(next);
+    localStorage.setItem('toolParams', JSON.stringify(next));
+  };
+
+  // Picks the model for this chat; a stored chat remembers it right away
+  const selectModel = (modelId: string) => {
+    setActiveModel(modelId);
+    if (!currentChatId) return;
+    fetch(`/api/chats/${encodeURIComponent(currentChatId)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ activeModel: modelId }),
+    }).catch(error => console.error('Error saving model choice:', error));
+  };
+
+  // Switches mode, dropping a selected tool the new mode doesn't allow
+  const selectMode = (modeId: string) => {
+    setActiveMode(modeId);
+    if (activeTool && !isToolAllowed(getMode(modeId), activeTool)) {
+      setActiveTool(null);
+    }
+  };
+
   // Function to handle file selection via the upload button
   const handleUploadClick = () => {
     fileInputRef.current?.click();
@@ -691,7 +1381,7 @@ export default function Home() {
           >
             <div>Drag and drop files here</div>
             <div className="text-sm dark:text-zinc-400 text-zinc-500">
-              {"(any file type, max 5MB)"}
+              {`(any file type, max ${MAX_FILE_SIZE / 1024 / 1024}MB)`}
             </div>
           </motion.div>
         )}
@@ -702,31 +1392,54 @@ export default function Home() {
         <header className="fixed top-0 left-0 right-0 z-10 bg-white/50 dark:bg-zinc-900/50 backdrop-blur-md">
           <div className="w-full md:w-[600px] mx-auto flex items-center justify-between p-4 border-b border-zinc-200 dark:border-zinc-800">
             <div className="flex items-center gap-2">
+              <button
+                onClick={() => setIsSidebarOpen(true)}
+                className="p-1.5 rounded-md text-zinc-500 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+                aria-label="Show chat history"
+              >
+                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round"><line x1="3" y1="6" x2="21" y2="6"></line><line x1="3" y1="12" x2="21" y2="12"></line><line x1="3" y1="18" x2="21" y2="18"></line></svg>
+              </button>
               <div className="size-8 flex justify-center items-center bg-zinc-200 dark:bg-zinc-800 rounded-full">
                 <BotIcon />
               </div>
               <div>
                 <div className="font-semibold text-zinc-800 dark:text-zinc-200">AI Assistant</div>
                 <div className="text-xs text-zinc-400 capitalize">
-                  {activeMode} Mode
-                  {activeTool && ` / ${activeTool} Gen`}
+                  {currentMode.label} Mode
+                  {activeTool && ` / ${currentTool?.label ?? activeTool}`}
                 </div>
               </div>
             </div>
-            <button
-              onClick={startNewChat}
-              className="px-3 py-1 text-sm bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-md transition-colors"
-              aria-label="Start a new chat"
-            >
-              New Chat
-            </button>
+            <div className="flex items-center gap-2">
+              {models.length > 1 && (
+                <select
+                  value={activeModel ?? defaultModel ?? ''}
+                  onChange={(e) => selectModel(e.target.value)}
+                  className="max-w-[140px] px-2 py-1 text-sm bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 rounded-md outline-none"
+                  aria-label="Model"
+                >
+                  {models.map(model => (
+                    <option key={model.id} value={model.id}>
+                      {model.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={startNewChat}
+                className="px-3 py-1 text-sm bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-md transition-colors"
+                aria-label="Start a new chat"
+              >
+                New Chat
+              </button>
+            </div>
           </div>
         </header>
 
         <div className="flex-grow overflow-y-auto" ref={messagesContainerRef}>
           <div className="w-full md:w-[600px] mx-auto flex flex-col gap-5 px-4 pt-28 pb-4">
-            {messages.length > 0 ? (
-              messages.map((message) => (
+            {visibleMessages.length > 0 ? (
+              visibleMessages.map((message) => (
                 <React.Fragment key={message.id}>
                   {/* Render standalone attachments below the bubble */}
                   {message.experimental_attachments && message.experimental_attachments.length > 0 && (
@@ -764,6 +1477,12 @@ export default function Home() {
                                   src={attachment.url}
                                   isUserMessage={message.role === 'user'}
                                 />
+                                {attachment.transcript && (
+                                  <details className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                                    <summary className="cursor-pointer select-none">Transcript</summary>
+                                    <p className="mt-1 whitespace-pre-wrap">{attachment.transcript}</p>
+                                  </details>
+                                )}
                               </div>
                             );
                           }
@@ -809,14 +1528,82 @@ export default function Home() {
                         <div className={`p-2 rounded-xl ${
                             message.role === 'user'
                               ? 'bg-blue-500 text-white rounded-br-none'
-                              : 'bg-zinc-200 dark:bg-zinc-800 text-zinc-800 dark:text-zinc-200 rounded-bl-none'
+                              : message.moderation
+                                ? 'bg-amber-50 dark:bg-amber-950 border border-amber-300 dark:border-amber-800 text-amber-900 dark:text-amber-200 rounded-bl-none'
+                                : 'bg-zinc-200 dark:bg-zinc-800 text-zinc-800 dark:text-zinc-200 rounded-bl-none'
                           }`}
                         >
-                          {message.content && <div className="text-sm"><Markdown>{message.content}</Markdown></div>}
+                          {editing?.id === message.id ? (
+                            <div className="flex flex-col gap-1 min-w-[240px]">
+                              <textarea
+                                autoFocus
+                                value={editing.text}
+                                onChange={(e) => setEditing({ id: message.id, text: e.target.value })}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter' && !e.shiftKey) {
+                                    e.preventDefault();
+                                    submitEdit(message);
+                                  }
+                                  if (e.key === 'Escape') setEditing(null);
+                                }}
+                                rows={3}
+                                className="w-full rounded-md px-2 py-1 text-sm text-zinc-800 focus:outline-none"
+                              />
+                              <div className="flex justify-end gap-2 text-xs">
+                                <button onClick={() => setEditing(null)} className="hover:underline">Cancel</button>
+                                <button onClick={() => submitEdit(message)} className="font-semibold hover:underline">Send</button>
+                              </div>
+                            </div>
+                          ) : (
+                            message.content && <div className="text-sm"><Markdown>{message.content}</Markdown></div>
+                          )}
+                          {message.sources && message.sources.length > 0 && (
+                            <MessageSources sources={message.sources} />
+                          )}
+                          {message.status === 'pending' && message.progress !== undefined && (
+                            <div className="text-xs opacity-70">{Math.round(message.progress * 100)}%</div>
+                          )}
+                          {isPendingJob(message) && (
+                            <button
+                              onClick={() => cancelPendingJob(message)}
+                              className="text-xs opacity-70 hover:opacity-100 hover:underline"
+                            >
+                              Cancel
+                            </button>
+                          )}
+                          {message.status === 'cancelled' && (
+                            <div className="text-xs opacity-70">Cancelled</div>
+                          )}
+                          {message.status === 'stopped' && (
+                            <div className="text-xs opacity-70">Stopped</div>
+                          )}
+                          {message.status === 'blocked' && (
+                            <div className="text-xs opacity-70">
+                              {message.role === 'user' ? 'Not sent: blocked by moderation' : 'Blocked by moderation'}
+                              {message.moderation?.categories.length ? ` (${message.moderation.categories.join(', ')})` : ''}
+                            </div>
+                          )}
                         </div>
                       </motion.div>
                     </div>
                   )}
+                  {speech[message.id] && (
+                    <SpeechPlayer speech={speech[message.id]} onClipEnded={() => advanceSpeech(message.id)} />
+                  )}
+                  {/* Alternatives from edits and regenerations, and the actions that create them */}
+                  <MessageActions
+                    message={message}
+                    siblings={getSiblings(messages, message.id)}
+                    isBusy={!!abortController}
+                    canAct={!abortController && editing === null && message.status !== 'pending'}
+                    canRegenerate={message.role === 'assistant' &&
+                      visibleMessages[visibleMessages.indexOf(message) - 1]?.role === 'user'}
+                    isSynthesizing={Boolean(speech[message.id]?.pending)}
+                    onSwitch={switchBranch}
+                    onEdit={() => setEditing({ id: message.id, text: message.content })}
+                    onRegenerate={() => regenerate(message)}
+                    onSpeak={() => speakMessage(message)}
+                  />
                 </React.Fragment>
               ))
             ) : (
@@ -887,7 +1674,7 @@ export default function Home() {
                       initial={{ scale: 0.8, opacity: 0 }}
                       animate={{ scale: 1, opacity: 1 }}
                       exit={{ scale: 0.8, opacity: 0 }}
-                      className="w-16 h-16"
+                      className="relative w-16 h-16"
                     >
                       {file.type.startsWith("image") ? (
                         <img
@@ -898,6 +1685,14 @@ export default function Home() {
                       ) : (
                         <FilePreview file={file} />
                       )}
+                      {uploadProgress && (
+                        <div className="absolute bottom-1 left-1 right-1 h-1 rounded-full bg-black/20 overflow-hidden">
+                          <div
+                            className="h-full bg-blue-500 transition-[width] duration-200"
+                            style={{ width: `${(uploadProgress[idx] ?? 0) * 100}%` }}
+                          />
+                        </div>
+                      )}
                     </motion.div>
                   ))}
                 </motion.div>
@@ -918,37 +1713,77 @@ export default function Home() {
                 </svg>
               </button>
 
+              {activeTool === 'voice' && (
+                <>
+                  {/* Speaking counts as busy so hands-free mode doesn't record the reply */}
+                  <VoiceRecorder
+                    isBusy={isLoading || !!abortController || uploadProgress !== null || isSpeaking}
+                    onRecorded={handleVoiceRecorded}
+                  />
+                  <button
+                    type="button"
+                    onClick={toggleAutoSpeak}
+                    className={`px-2 py-1 text-xs rounded-full whitespace-nowrap transition-colors ${
+                      autoSpeak
+                        ? "bg-blue-500 text-white"
+                        : "bg-zinc-100 dark:bg-zinc-800 text-zinc-500 hover:bg-zinc-200 dark:hover:bg-zinc-700"
+                    }`}
+                    aria-pressed={autoSpeak}
+                  >
+                    Auto-speak
+                  </button>
+                </>
+              )}
+
               {/* Text Input Form */}
               <form
                 className="relative w-full"
                 onSubmit={(event) => {
-                  handleSubmit(event, { experimental_attachments: files || undefined });
-                  setFiles(null);
                   setFileErrors([]);
+                  handleSubmit(event, { experimental_attachments: files || undefined });
                 }}
               >
+                <CommandPopover
+                  completion={{ ...commandCompletion, suggestions: commandSuggestions }}
+                  selectedIndex={selectedCommandIndex}
+                  onSelect={completeCommand}
+                />
                 <input
                   ref={inputRef}
                   value={input}
                   onChange={handleInputChange}
+                  onKeyDown={handleComposerKeyDown}
                   onPaste={handlePaste}
-                  placeholder="Send a message..."
+                  placeholder={currentMode.copy.placeholder}
                   className="w-full border rounded-full px-4 py-1.5 text-sm dark:bg-zinc-800 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
-                <button
-                  type="submit"
-                  className={`absolute right-1.5 top-1/2 -translate-y-1/2 p-1.5 rounded-full ${
-                    input.trim() || (files && files.length > 0)
-                      ? 'bg-blue-500 text-white hover:bg-blue-600'
-                      : 'bg-zinc-100 dark:bg-zinc-700 text-zinc-400 cursor-not-allowed'
-                  } transition-all duration-200`}
-                  aria-label="Send message"
-                  disabled={isLoading || (!input.trim() && (!files || files.length === 0))}
-                >
-                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    <path d="M5 12h14" /><path d="m12 5 7 7-7 7" />
-                  </svg>
-                </button>
+                {abortController ? (
+                  <button
+                    type="button"
+                    onClick={() => abortController.abort()}
+                    className="absolute right-1.5 top-1/2 -translate-y-1/2 p-1.5 rounded-full bg-zinc-800 dark:bg-zinc-200 text-white dark:text-zinc-900 hover:opacity-80 transition-all duration-200"
+                    aria-label="Stop generating"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+                      <rect x="6" y="6" width="12" height="12" rx="1" />
+                    </svg>
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    className={`absolute right-1.5 top-1/2 -translate-y-1/2 p-1.5 rounded-full ${
+                      input.trim() || (files && files.length > 0)
+                        ? 'bg-blue-500 text-white hover:bg-blue-600'
+                        : 'bg-zinc-100 dark:bg-zinc-700 text-zinc-400 cursor-not-allowed'
+                    } transition-all duration-200`}
+                    aria-label="Send message"
+                    disabled={isLoading || uploadProgress !== null || (!input.trim() && (!files || files.length === 0))}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                      <path d="M5 12h14" /><path d="m12 5 7 7-7 7" />
+                    </svg>
+                  </button>
+                )}
               </form>
             </div>
           </div>
@@ -1004,51 +1839,45 @@ export default function Home() {
               {/* Menu Items */}
               {activeTab === 'modes' ? (
                 <div className="flex flex-col gap-2">
-                  <button
-                    className={`w-full p-3 flex items-center justify-between rounded-lg transition-colors ${
-                      activeMode === 'safe' ? 'bg-blue-500 text-white' : 'bg-zinc-800 hover:bg-zinc-700'
-                    }`}
-                    onClick={() => setActiveMode('safe')}
-                  >
-                    <div className="flex items-center gap-3">
-                      <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"></path></svg>
-                      <span>Safe Mode</span>
-                    </div>
-                    <span className="text-xs">Basic+</span>
-                  </button>
-                  <button
-                    className={`w-full p-3 flex items-center justify-between rounded-lg transition-colors ${
-                      activeMode === 'wild' ? 'bg-blue-500 text-white' : 'bg-zinc-800 hover:bg-zinc-700'
-                    }`}
-                    onClick={() => setActiveMode('wild')}
-                  >
-                    <div className="flex items-center gap-3">
-                      <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polyline points="16 18 22 12 16 6"></polyline><polyline points="8 6 2 12 8 18"></polyline></svg>
-                      <span>Wild Mode</span>
-                    </div>
-                    <span className="text-xs">Premium+</span>
-                  </button>
-                </div>
-              ) : (
-                <div className="flex flex-col gap-2">
-                  {[
-                    { id: 'image', name: 'Image Generation', icon: <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="3" y="3" width="18" height="18" rx="2"></rect><circle cx="8.5" cy="8.5" r="1.5"></circle><path d="M21 15l-5-5L5 21"></path></svg> },
-                    { id: 'video', name: 'Video Generation', icon: <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="m22 8-6 4 6 4V8z"></path><rect x="2" y="6" width="14" height="12" rx="2"></rect></svg> },
-                    { id: 'audio', name: 'Audio Generation', icon: <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M3 10v4"></path><path d="M6 8v8"></path><path d="M9 12v0"></path><path d="M12 6v12"></path><path d="M15 10v4"></path><path d="M18 8v8"></path><path d="M21 10v4"></path></svg> },
-                    { id: 'voice', name: 'Voice Chat', icon: <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 1a3 3 0 0 0-3 3v8a3 3 0 0 0 6 0V4a3 3 0 0 0-3-3z"></path><path d="M19 10v2a7 7 0 0 1-14 0v-2"></path><line x1="12" y1="19" x2="12" y2="23"></line></svg> },
-                  ].map(tool => (
+                  {MODES.map(mode => (
                     <button
-                      key={tool.id}
-                      className={`w-full p-3 flex items-center justify-start gap-3 rounded-lg transition-colors ${
-                        activeTool === tool.id ? 'bg-blue-500 text-white' : 'bg-zinc-800 hover:bg-zinc-700'
+                      key={mode.id}
+                      className={`w-full p-3 flex items-center justify-between rounded-lg transition-colors ${
+                        activeMode === mode.id ? 'bg-blue-500 text-white' : 'bg-zinc-800 hover:bg-zinc-700'
                       }`}
-                      onClick={() => setActiveTool(activeTool === tool.id ? null : tool.id)}
+                      onClick={() => selectMode(mode.id)}
                     >
-                      {tool.icon}
-                      <span>{tool.name}</span>
+                      <div className="flex items-center gap-3">
+                        <ModeIcon name={mode.icon} />
+                        <span>{mode.label} Mode</span>
+                      </div>
+                      {mode.badge && <span className="text-xs">{mode.badge}</span>}
                     </button>
                   ))}
                 </div>
+              ) : (
+                <div className="flex flex-col gap-2">
+                  {tools.filter(tool => isToolAllowed(currentMode, tool.id)).map(tool => (
+                    <div key={tool.id} className="flex flex-col rounded-lg bg-zinc-800">
+                      <button
+                        className={`w-full p-3 flex items-center justify-start gap-3 rounded-lg transition-colors ${
+                          activeTool === tool.id ? 'bg-blue-500 text-white' : 'bg-zinc-800 hover:bg-zinc-700'
+                        }`}
+                        onClick={() => setActiveTool(activeTool === tool.id ? null : tool.id)}
+                      >
+                        <ToolIcon name={tool.icon} />
+                        <span>{tool.label}</span>
+                      </button>
+                      {activeTool === tool.id && tool.parameters.length > 0 && (
+                        <ToolParameterForm
+                          tool={tool}
+                          values={toolParams[tool.id] || {}}
+                          onChange={(values) => updateToolParams(tool.id, values)}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
               )}
 
               {/* Divider */}
@@ -1069,6 +1898,17 @@ export default function Home() {
         )}
       </AnimatePresence>
 
+      <ChatSidebar
+        isOpen={isSidebarOpen}
+        currentChatId={currentChatId}
+        onClose={() => setIsSidebarOpen(false)}
+        onSelect={selectChat}
+        onNewChat={startNewChat}
+        onDeleted={(chatId) => {
+          if (chatId === currentChatId) startNewChat();
+        }}
+      />
+
       {/* Hidden file input for the attachment button */}
       <input
         type="file"
@@ -1,18 +1,36 @@
-import { openai } from "@ai-sdk/openai";
-import { streamText } from "ai";
-
-// Define types for better type safety
-type ChatMessage = {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-  id?: string;
-};
-
-type AttachmentType = {
-  name: string;
-  contentType: string;
-  url: string;
-};
+import { createDataStreamResponse, formatDataStreamPart, generateText, streamText } from "ai";
+import { v4 as uuidv4 } from 'uuid';
+import { addMessageToChat, updateChat } from '@/lib/chat';
+import { contentWithTranscripts, getContextOptions, loadChatContext, type ChatContext } from '@/lib/context';
+import {
+  createJob,
+  createJobCallbackUrl,
+  getJob,
+  isAsyncTool,
+  isJobSettled,
+  jobToMessage,
+  parseJobHandle,
+  saveJob,
+  type Job,
+  type JobHandle,
+} from '@/lib/jobs';
+import { parseSlashCommands } from '@/lib/commands';
+import { extractAttachments } from '@/lib/documents';
+import {
+  getGenerationProvider,
+  isGenerativeTool,
+  listGenerationProviders,
+  type GenerationRequest,
+} from '@/lib/generation';
+import { formatSkippedNotice, getLanguageModel, getModel, toModelMessages, type ModelConfig } from '@/lib/models';
+import { getMode, isToolAllowed, type Mode } from '@/lib/modes';
+import { getTool, parseToolParams } from '@/lib/tools';
+import { createRefusal, moderate, moderateMessage, type ModerationVerdict } from '@/lib/moderation';
+import type { UploadContext } from '@/lib/storage';
+import { createStreamDecoder, readTextStream } from '@/lib/stream-decoder';
+import { findRelevantPassages, formatPassages, type Passage } from '@/lib/retrieval';
+import { transcribeAttachments } from '@/lib/transcription';
+import type { Attachment, Message } from '@/lib/types';
 
 export async function POST(req: Request) {
   try {
@@ -23,7 +41,7 @@ export async function POST(req: Request) {
     });
     
     // Destructure with validation
-    const { messages, chatId, experimental_attachments, activeMode, activeTool } = body;
+    const { messages, chatId, experimental_attachments } = body;
     
     // Validate required fields
     if (!messages || !Array.isArray(messages) || messages.length === 0) {
@@ -33,81 +51,188 @@ export async function POST(req: Request) {
       );
     }
 
-    // Extract the single latest message
-    const latestMessage = messages[0];
+    // Commands typed at the start of the message (`/safe /image a cat`)
+    // take precedence over the menu selections sent with it
+    const typed = parseSlashCommands(String(messages[messages.length - 1].content ?? ''));
+    if (!typed.ok || typed.input.action) {
+      return new Response(
+        JSON.stringify({ error: typed.ok ? `/${typed.input.action} only works in the chat composer` : typed.error }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    const activeMode = typed.input.mode ?? body.activeMode;
+    const activeTool = typed.input.tool ?? body.activeTool;
+    const rawToolParams = typed.input.toolParams ? { ...body.toolParams, ...typed.input.toolParams } : body.toolParams;
+
+    // Unknown modes fall back to the default one; tools are limited per mode
+    const mode = getMode(activeMode);
+    const tool = getTool(activeTool);
+    if (activeTool && (!tool || !isToolAllowed(mode, activeTool))) {
+      return new Response(
+        JSON.stringify({ error: `The ${activeTool} tool is not available in ${mode.label} mode` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The tool's settings, checked against the manifest and sent to n8n as `toolParams`
+    const parsedToolParams = tool ? parseToolParams(tool, rawToolParams) : null;
+    if (parsedToolParams && !parsedToolParams.ok) {
+      return new Response(
+        JSON.stringify({ error: parsedToolParams.error }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    const toolParams = parsedToolParams?.params;
+
+    // The chat model from the registry; none given means the default one
+    const model = getModel(body.model);
+    if (!model) {
+      return new Response(
+        JSON.stringify({ error: `Unknown model: ${body.model}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The latest message is last; anything before it is the client's copy of the history.
+    // Voice notes are transcribed first so the prompt includes what was said.
+    const uploadContext: UploadContext = { origin: new URL(req.url).origin };
+    const lastMessage = { ...messages[messages.length - 1], content: typed.input.text };
+    const latestMessage = lastMessage.experimental_attachments
+      ? {
+          ...lastMessage,
+          experimental_attachments: await transcribeAttachments(lastMessage.experimental_attachments, uploadContext),
+        }
+      : lastMessage;
+
+    // Moderated modes check the prompt before it goes anywhere
+    const inputVerdict = mode.moderation ? await moderateMessage(latestMessage, uploadContext) : null;
+
+    // Persist the user's message before dispatching it
+    // An edited prompt names its parent; a regenerated one is already stored,
+    // and saving it again makes it the end of the active branch
+    await persistMessage(chatId, {
+      id: latestMessage.id || uuidv4(),
+      role: 'user',
+      content: latestMessage.content ?? '',
+      ...((typeof latestMessage.parentId === 'string' || latestMessage.parentId === null) && {
+        parentId: latestMessage.parentId,
+      }),
+      ...(latestMessage.experimental_attachments && {
+        experimental_attachments: latestMessage.experimental_attachments,
+      }),
+      ...(inputVerdict?.flagged && { status: 'blocked' as const }),
+    });
+    if (chatId) {
+      // Remember the settings so they are restored when the chat is reopened
+      await updateChat(chatId, { activeMode: mode.id, activeTool: activeTool ?? null, activeModel: model.id }).catch(error => {
+        console.error('Failed to persist chat settings:', error);
+      });
+    }
+
+    if (inputVerdict?.flagged) {
+      return respondWithRefusal(chatId, mode, 'input', inputVerdict, uuidv4());
+    }
+
+    // Recent turns plus a summary of older ones, shared by n8n and the OpenAI fallback.
+    // A quarter of the model's window is left for the system prompt and the reply.
+    const contextOptions = getContextOptions();
+    const context = await loadChatContext(chatId, [...messages.slice(0, -1), latestMessage], {
+      ...contextOptions,
+      tokenBudget: Math.min(contextOptions.tokenBudget, Math.floor(model.maxContextTokens * 0.75)),
+      model,
+    });
     
     // Construct the prefixed message
-    const prefixes = [];
-    if (activeMode) {
-      prefixes.push(`/${activeMode}`);
-    }
-    if (activeTool) {
-      const toolCommand = activeTool === 'voice' ? 'audio' : activeTool;
-      prefixes.push(`/${toolCommand}`);
+    const prefixes = [mode.prefix];
+    if (tool) {
+      prefixes.push(tool.prefix);
     }
 
     const prefixString = prefixes.join(' ');
-    const originalContent = messages[0].content;
+    const originalContent = contentWithTranscripts(latestMessage);
     const prefixedContent = prefixString ? `${prefixString} ${originalContent}` : originalContent;
 
-    // If this is a video request, we will not wait for the webhook.
-    // We expect n8n to return a jobId immediately.
-    if (activeTool === 'video') {
+    // Without n8n, generative tools run on their own providers
+    const useN8n = process.env.USE_N8N_WEBHOOK === 'true';
+    if (!useN8n && tool && isGenerativeTool(tool.id)) {
+      return runGeneration(chatId, mode, {
+        tool: tool.id,
+        prompt: originalContent,
+        params: toolParams ?? {},
+        context: uploadContext,
+        signal: req.signal,
+      });
+    }
+
+    // Passages from documents shared earlier in the chat that bear on the
+    // question; files on this message are sent in full instead
+    const passages = chatId
+      ? await findRelevantPassages(chatId, originalContent, uploadContext, {
+          exclude: (latestMessage.experimental_attachments || []).map((attachment: Attachment) => attachment.url),
+        })
+      : [];
+
+    // n8n gets the text of attached documents along with the files
+    const messageToSend = {
+      ...latestMessage,
+      content: prefixedContent,
+      ...(useN8n && latestMessage.experimental_attachments && {
+        experimental_attachments: await extractAttachments(latestMessage.experimental_attachments, uploadContext),
+      }),
+    };
+
+    // Long-running tools don't wait for the result: n8n starts a job and
+    // returns a handle, and the client follows the job by its id.
+    if (useN8n && isAsyncTool(activeTool)) {
       const webhookUrl = process.env.N8N_WEBHOOK_URL;
       if (!webhookUrl) {
         return new Response(JSON.stringify({ error: 'Webhook not configured' }), { status: 500 });
       }
 
+      // The job is recorded up front so an early callback always finds it
+      const job = await createJob({ chatId: chatId ?? null, tool: activeTool, mode: mode.id, provider: 'n8n' });
+      const callbackUrl = createJobCallbackUrl(new URL(req.url).origin, job.id);
+
       try {
         const n8nResponse = await fetch(webhookUrl, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            message: { ...messages[0], content: prefixedContent },
+            message: messageToSend,
             chatId,
             experimental_attachments,
+            history: context.messages,
+            summary: context.summary?.text,
+            ...(passages.length > 0 && { passages }),
+            ...(toolParams && { toolParams }),
+            model: model.id,
+            jobId: job.id,
+            // Usable directly as the Replicate webhook
+            ...(callbackUrl && { callbackUrl }),
           }),
         });
 
         const data = await n8nResponse.json();
-        
-        // We expect n8n to immediately return the Replicate stream URL
-        // Safely extract the URL string, even if it's nested
-        let streamUrl = null;
-        if (typeof data.replicateStreamUrl === 'string') {
-          streamUrl = data.replicateStreamUrl;
-        } else if (Array.isArray(data.replicateStreamUrl) && data.replicateStreamUrl.length > 0 && data.replicateStreamUrl[0].url) {
-          streamUrl = data.replicateStreamUrl[0].url;
-        }
-
-        const initialContent = data.content || "Give me one second, Daddy...";
+        const handle = parseJobHandle(data);
 
-        if (streamUrl) {
-          return new Response(JSON.stringify({
-            status: 'pending',
-            replicateStreamUrl: streamUrl,
-            content: initialContent,
-          }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        } else {
-          console.error("n8n response did not contain a valid replicateStreamUrl:", data);
-          throw new Error("Could not find a valid Replicate stream URL in the n8n response.");
+        if (!handle) {
+          console.error("n8n response did not contain a job handle:", data);
+          throw new Error("Could not find a job handle in the n8n response.");
         }
 
+        return respondWithStartedJob(job, handle, data.content);
       } catch (error) {
-        console.error('Error calling n8n for video job:', error);
-        return new Response(JSON.stringify({ error: 'Failed to start video generation.' }), { status: 500 });
+        console.error(`Error calling n8n for ${activeTool} job:`, error);
+        // n8n may have reported a result before its reply failed
+        const current = await getJob(job.id) ?? job;
+        if (isJobSettled(current)) return respondWithSettledJob(current);
+        await saveJob({ ...current, status: 'failed', error: 'Failed to start the job.' });
+        return new Response(JSON.stringify({ error: `Failed to start ${activeTool} generation.` }), { status: 500 });
       }
     }
 
-    const messageToSend = {
-      ...messages[0],
-      content: prefixedContent,
-    };
-
     // Check if n8n webhook integration is enabled
-    if (process.env.USE_N8N_WEBHOOK === 'true') {
+    if (useN8n) {
       // Validate webhook URL
       const webhookUrl = process.env.N8N_WEBHOOK_URL;
       
@@ -117,22 +242,28 @@ export async function POST(req: Request) {
       if (!webhookUrl) {
         console.error('N8N webhook URL not configured');
         // Fallback to direct OpenAI if webhook URL is missing
-        return fallbackToDirectOpenAI(messages);
+        return fallbackToDirectOpenAI(context, mode, model, uploadContext, passages, chatId, req.signal);
       }
       
       try {
-        // Call n8n webhook with timeout
+        // Call n8n webhook with timeout, and stop waiting if the user does
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), 600000); // 10-minute timeout
+        req.signal.addEventListener('abort', () => controller.abort(), { once: true });
         
-        // Only send the latest message and the chatId to n8n
+        // Send the latest message along with the context window
         const n8nResponse = await fetch(webhookUrl, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ 
             message: messageToSend, 
             chatId, 
-            experimental_attachments 
+            experimental_attachments,
+            history: context.messages,
+            summary: context.summary?.text,
+            ...(passages.length > 0 && { passages }),
+            ...(toolParams && { toolParams }),
+            model: model.id,
           }),
           signal: controller.signal
         });
@@ -142,46 +273,123 @@ export async function POST(req: Request) {
         // Check if response is OK
         if (!n8nResponse.ok) {
           console.error(`N8N webhook error: ${n8nResponse.status} ${n8nResponse.statusText}`);
-          return fallbackToDirectOpenAI(messages);
+          return fallbackToDirectOpenAI(context, mode, model, uploadContext, passages, chatId, req.signal);
         }
         
+        const assistantMessageId = uuidv4();
+
         // Handle n8n response based on content type
         const contentType = n8nResponse.headers.get('Content-Type') || '';
         
         if (contentType.includes('application/json')) {
           // Parse JSON response
           const result = await n8nResponse.json();
+
+          // Any tool may answer with a job instead of a result
+          const handle = parseJobHandle(result);
+          if (handle) {
+            const job = await createJob({
+              chatId: chatId ?? null,
+              tool: activeTool || 'chat',
+              mode: mode.id,
+              messageId: assistantMessageId,
+              ...handle,
+            });
+            return respondWithPendingJob(job, result.content);
+          }
           
+          // Moderated modes wait for the whole reply and check it first
+          if (result.messages && Array.isArray(result.messages) && mode.moderation) {
+            const { text } = await generateText({
+              model: getLanguageModel(model),
+              messages: result.messages,
+              abortSignal: req.signal,
+            });
+            return respondWithCheckedReply(chatId, mode, { id: assistantMessageId, role: 'assistant', content: text });
+          }
+
           // If n8n returns a messages array for streaming
           if (result.messages && Array.isArray(result.messages)) {
             // Stream the n8n messages back using openai model as a proxy
+            const partial = trackPartialReply(req.signal, chatId, assistantMessageId);
             const streamResult = streamText({
-              model: openai("gpt-4o"),
+              model: getLanguageModel(model),
               messages: result.messages,
+              abortSignal: req.signal,
+              onChunk: ({ chunk }) => {
+                if (chunk.type === 'text-delta') partial.append(chunk.textDelta);
+              },
+              onFinish: ({ text }) => {
+                partial.finish();
+                return persistMessage(chatId, {
+                  id: assistantMessageId,
+                  role: 'assistant',
+                  content: text,
+                });
+              },
+            });
+            return streamResult.toDataStreamResponse({
+              headers: { 'X-Message-Id': assistantMessageId },
             });
-            return streamResult.toDataStreamResponse();
           } else {
-            // Return direct JSON response
-            return new Response(JSON.stringify(result), { 
+            const reply: Message = {
+              id: assistantMessageId,
+              role: 'assistant',
+              content: result.content || result.text || '',
+              experimental_attachments: result.experimental_attachments || [],
+              ...(Array.isArray(result.sources) && result.sources.length > 0 && { sources: result.sources }),
+            };
+            if (mode.moderation) {
+              const verdict = await moderateMessage(reply, uploadContext);
+              if (verdict.flagged) return respondWithRefusal(chatId, mode, 'output', verdict, assistantMessageId);
+            }
+
+            // Persist and return direct JSON response
+            await persistMessage(chatId, reply);
+            return new Response(JSON.stringify({ ...result, id: assistantMessageId }), { 
               status: 200, 
               headers: { 'Content-Type': 'application/json' } 
             });
           }
+        } else if (contentType.includes('text/event-stream') && mode.moderation) {
+          const text = await readTextStream(n8nResponse);
+          return respondWithCheckedReply(chatId, mode, { id: assistantMessageId, role: 'assistant', content: text });
         } else if (contentType.includes('text/event-stream')) {
-          // Pass through streaming response
-          return new Response(n8nResponse.body, { 
+          // Pass through streaming response, collecting the text to persist it
+          const partial = trackPartialReply(req.signal, chatId, assistantMessageId);
+          const body = n8nResponse.body
+            ? tapEventStream(n8nResponse.body, partial, text => persistMessage(chatId, {
+                id: assistantMessageId,
+                role: 'assistant',
+                content: text,
+              }))
+            : null;
+          return new Response(body, { 
             status: 200, 
-            headers: { 'Content-Type': 'text/event-stream' } 
+            headers: { 'Content-Type': 'text/event-stream', 'X-Message-Id': assistantMessageId } 
           });
         } else if (contentType.includes('audio/') || 
                    contentType.includes('video/') || 
                    contentType.includes('image/') ||
                    contentType.includes('application/octet-stream')) {
+          if (mode.moderation) {
+            // Images can be inspected; other media is only let through if unchecked media is allowed
+            const data = new Uint8Array(await n8nResponse.arrayBuffer());
+            const verdict = contentType.startsWith('image/')
+              ? await moderate({ text: '', images: [`data:${contentType};base64,${Buffer.from(data).toString('base64')}`] })
+              : await moderate({ text: '', images: [], unchecked: [contentType] });
+            if (verdict.flagged) return respondWithRefusal(chatId, mode, 'output', verdict, assistantMessageId);
+            return new Response(data, { status: 200, headers: { 'Content-Type': contentType } });
+          }
           // Handle binary data (audio, video, images) by preserving content type and body
           return new Response(n8nResponse.body, { 
             status: 200, 
             headers: { 'Content-Type': contentType } 
           });
+        } else if (mode.moderation) {
+          // Anything else is read as text so it can be checked
+          const text = await readTextStream(n8nResponse);
+          return respondWithCheckedReply(chatId, mode, { id: assistantMessageId, role: 'assistant', content: text });
         } else {
           // For other content types, just pass through
           return new Response(n8nResponse.body, { 
@@ -190,12 +398,16 @@ export async function POST(req: Request) {
           });
         }
       } catch (error) {
+        // The user stopped the request; there is nobody left to answer
+        if (req.signal.aborted) {
+          return new Response(null, { status: 499 });
+        }
         console.error('Error calling n8n webhook:', error);
-        return fallbackToDirectOpenAI(messages);
+        return fallbackToDirectOpenAI(context, mode, model, uploadContext, passages, chatId, req.signal);
       }
     } else {
       // Use direct OpenAI integration (current implementation)
-      return fallbackToDirectOpenAI(messages);
+      return fallbackToDirectOpenAI(context, mode, model, uploadContext, passages, chatId, req.signal);
     }
   } catch (error) {
     console.error('Error processing chat request:', error);
@@ -206,13 +418,261 @@ export async function POST(req: Request) {
   }
 }
 
-// Helper function for fallback to direct OpenAI (current implementation)
-function fallbackToDirectOpenAI(messages: ChatMessage[]) {
+/**
+ * Answers with the chat's model directly, when n8n is off or unavailable.
+ * Attachments are passed as images and document text; any the model
+ * can't take are named in a notice at the top of the reply. Retrieved
+ * passages go in the system prompt, and their sources are saved with the
+ * reply and sent in `X-Message-Sources` so citations can link to them.
+ */
+async function fallbackToDirectOpenAI(
+  context: ChatContext,
+  mode: Mode,
+  model: ModelConfig,
+  uploadContext: UploadContext,
+  passages: Passage[],
+  chatId?: string,
+  signal?: AbortSignal
+) {
+  const assistantMessageId = uuidv4();
+  // Earlier documents in a saved chat are searched rather than resent
+  const { messages, skipped } = await toModelMessages(context.messages, model, uploadContext, {
+    retrieval: Boolean(chatId),
+  });
+  const notice = skipped.length > 0 ? formatSkippedNotice(skipped) : '';
+  const system = [
+    mode.systemPrompt,
+    context.summary && `Summary of the earlier conversation: ${context.summary.text}`,
+    passages.length > 0 && formatPassages(passages),
+  ].filter(Boolean).join('\n\n');
+
+  // Listed in passage order, so citation [n] is sources[n - 1]
+  const sources = passages.map(passage => passage.source);
+  const headers: Record<string, string> = { 'X-Message-Id': assistantMessageId };
+  if (sources.length > 0) headers['X-Message-Sources'] = encodeURIComponent(JSON.stringify(sources));
+
+  // Moderated modes wait for the whole reply and check it before sending it
+  if (mode.moderation) {
+    const { text } = await generateText({ model: getLanguageModel(model), system, messages, abortSignal: signal });
+    return respondWithCheckedReply(chatId, mode, {
+      id: assistantMessageId,
+      role: 'assistant',
+      content: notice + text,
+      ...(sources.length > 0 && { sources }),
+    });
+  }
+
+  const partial = signal ? trackPartialReply(signal, chatId, assistantMessageId) : undefined;
+  partial?.append(notice);
   const result = streamText({
-    model: openai("gpt-4o"),
-    system:
-      "do not respond on markdown or lists, keep your responses brief, you can ask the user to upload images or documents if it could help you understand the problem better",
+    model: getLanguageModel(model),
+    system,
     messages,
+    abortSignal: signal,
+    onChunk: ({ chunk }) => {
+      if (chunk.type === 'text-delta') partial?.append(chunk.textDelta);
+    },
+    onFinish: ({ text }) => {
+      partial?.finish();
+      return persistMessage(chatId, {
+        id: assistantMessageId,
+        role: 'assistant',
+        content: notice + text,
+        ...(sources.length > 0 && { sources }),
+      });
+    },
+  });
+
+  if (!notice) {
+    return result.toDataStreamResponse({ headers });
+  }
+  return createDataStreamResponse({
+    headers,
+    execute: dataStream => {
+      dataStream.write(formatDataStreamPart('text', notice));
+      result.mergeIntoDataStream(dataStream);
+    },
+  });
+}
+
+/**
+ * Runs a tool on the provider configured for it (see lib/generation).
+ * Files come back as a reply, checked first in moderated modes; jobs are
+ * answered with their pending placeholder. The job is recorded before the
+ * provider starts, so a callback that arrives early always finds it.
+ */
+async function runGeneration(chatId: string | undefined, mode: Mode, request: Omit<GenerationRequest, 'callbackUrl'>) {
+  const provider = getGenerationProvider(request.tool);
+  if (!provider) {
+    const needed = listGenerationProviders(request.tool).join(' or ');
+    return new Response(
+      JSON.stringify({ error: `The ${request.tool} tool needs ${needed} to be configured, or GENERATION_PROVIDER=mock for offline use` }),
+      { status: 503, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const job = await createJob({ chatId: chatId ?? null, tool: request.tool, mode: mode.id, provider: provider.name });
+  let output;
+  try {
+    output = await provider.generate({
+      ...request,
+      callbackUrl: createJobCallbackUrl(request.context.origin, job.id),
+    });
+  } catch (error) {
+    const current = await getJob(job.id) ?? job;
+    if (isJobSettled(current)) return respondWithSettledJob(current);
+    await saveJob({ ...current, status: 'failed', error: `Failed to generate ${request.tool}.` });
+    if (request.signal?.aborted) {
+      return new Response(null, { status: 499 });
+    }
+    console.error(`Error running ${request.tool} on ${provider.name}:`, error);
+    return new Response(
+      JSON.stringify({ error: `Failed to generate ${request.tool}.` }),
+      { status: 502, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (output.kind === 'job') {
+    return respondWithStartedJob(job, output.handle);
+  }
+
+  // Nothing left to follow when the files came back at once
+  await saveJob({ ...job, status: 'completed', progress: 1 });
+
+  const reply: Message = {
+    id: uuidv4(),
+    role: 'assistant',
+    content: output.content || mode.copy.success,
+    experimental_attachments: output.experimental_attachments,
+  };
+  if (mode.moderation) {
+    const verdict = await moderateMessage(reply, request.context);
+    if (verdict.flagged) return respondWithRefusal(chatId, mode, 'output', verdict, reply.id);
+  }
+
+  await persistMessage(chatId, reply);
+  return new Response(JSON.stringify(reply), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Answers for a job its provider has just accepted. The job is recorded
+ * before the provider is called, so an early callback may already have
+ * settled it; its stored result is then returned as it is. Otherwise the
+ * provider's handle is added to the current record.
+ */
+async function respondWithStartedJob(job: Job, handle: JobHandle, content?: string) {
+  const current = await getJob(job.id) ?? job;
+  if (isJobSettled(current)) return respondWithSettledJob(current);
+  return respondWithPendingJob({ ...current, ...handle }, content);
+}
+
+// A settled job's message is already stored with the chat by applyJobUpdate
+function respondWithSettledJob(job: Job) {
+  return new Response(JSON.stringify(jobToMessage(job)), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Records where a started job runs and answers with its pending placeholder
+async function respondWithPendingJob(job: Job, content?: string) {
+  await saveJob(job);
+
+  const pendingMessage = jobToMessage(job, content || undefined);
+  await persistMessage(job.chatId ?? undefined, pendingMessage);
+
+  return new Response(JSON.stringify(pendingMessage), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Answers with the mode's refusal in place of blocked content
+async function respondWithRefusal(
+  chatId: string | undefined,
+  mode: Mode,
+  stage: 'input' | 'output',
+  verdict: ModerationVerdict,
+  messageId: string
+) {
+  const refusal = createRefusal(mode.moderation!.refusal, stage, verdict, messageId);
+  await persistMessage(chatId, refusal);
+
+  return new Response(JSON.stringify(refusal), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Sends a complete text reply as JSON once it has passed moderation
+async function respondWithCheckedReply(chatId: string | undefined, mode: Mode, reply: Message) {
+  const verdict = await moderateMessage(reply);
+  if (verdict.flagged) return respondWithRefusal(chatId, mode, 'output', verdict, reply.id);
+
+  await persistMessage(chatId, reply);
+  return new Response(JSON.stringify(reply), {
+    headers: { 'Content-Type': 'application/json' }
   });
-  return result.toDataStreamResponse();
+}
+
+// Persist a message without letting storage errors break the chat
+async function persistMessage(chatId: string | undefined, message: Message) {
+  if (!chatId) return;
+  try {
+    await addMessageToChat(chatId, message);
+  } catch (error) {
+    console.error('Failed to persist chat message:', error);
+  }
+}
+
+/**
+ * Collects a streamed reply as it arrives, so that if the user stops the
+ * request the text they already saw is saved with status 'stopped'.
+ * `finish` marks the reply complete; it is then saved by the caller.
+ */
+function trackPartialReply(signal: AbortSignal, chatId: string | undefined, messageId: string) {
+  let text = '';
+  let finished = false;
+
+  signal.addEventListener('abort', () => {
+    if (finished || !text) return;
+    persistMessage(chatId, { id: messageId, role: 'assistant', status: 'stopped', content: text });
+  }, { once: true });
+
+  return {
+    append(delta: string) {
+      text += delta;
+    },
+    finish() {
+      finished = true;
+    },
+  };
+}
+
+// Forward an SSE body unchanged while collecting OpenAI-style deltas
+function tapEventStream(
+  body: ReadableStream<Uint8Array>,
+  partial: ReturnType<typeof trackPartialReply>,
+  onDone: (text: string) => void
+) {
+  const textDecoder = new TextDecoder();
+  const decoder = createStreamDecoder('sse');
+  let text = '';
+
+  const append = (delta: string) => {
+    text += delta;
+    partial.append(delta);
+  };
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk);
+      append(decoder.push(textDecoder.decode(chunk, { stream: true })));
+    },
+    flush() {
+      append(decoder.push(textDecoder.decode()));
+      append(decoder.end());
+      partial.finish();
+      onDone(text);
+    },
+  }));
 }
@@ -0,0 +1,60 @@
+import { subscribeToJobEvents } from '@/lib/jobs';
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL = 25000;
+
+/**
+ * Server-sent events for one chat. Each finished job is pushed as a `job`
+ * event carrying the final message.
+ *
+ * @param {Request} req - The incoming request; the stream ends when it is aborted.
+ * @returns {Response} - A `text/event-stream` response.
+ */
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeToJobEvents(params.id, (event) => {
+        send(`event: job\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      req.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send(': connected\n\n');
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { deleteChat, getChat, updateChat, type ChatUpdate } from '@/lib/chat';
+import { getModel } from '@/lib/models';
+import { MODES } from '@/lib/modes';
+import { deleteChatIndex } from '@/lib/retrieval';
+import { getTool } from '@/lib/tools';
+
+/**
+ * API route to load a persisted chat so the UI can rehydrate it.
+ *
+ * @param {Request} req - The incoming request object.
+ * @returns {NextResponse} - The stored chat, or 404 if it does not exist.
+ */
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const chat = await getChat(params.id);
+
+    if (!chat) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(chat);
+  } catch (error) {
+    console.error('Error loading chat:', error);
+    return NextResponse.json({ error: 'Failed to load chat' }, { status: 500 });
+  }
+}
+
+/**
+ * API route to rename a chat, switch its active branch or change its
+ * stored mode/tool/model settings.
+ *
+ * @param {Request} req - JSON body with any of `title`, `activeLeafId`, `activeMode`, `activeTool`, `activeModel`.
+ * @returns {NextResponse} - The updated chat, or 404 if it does not exist.
+ */
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  const body = await req.json().catch(() => ({}));
+  const update: ChatUpdate = {};
+
+  if (typeof body.title === 'string') {
+    const title = body.title.trim();
+    if (!title) {
+      return NextResponse.json({ error: 'Title cannot be empty' }, { status: 400 });
+    }
+    update.title = title.slice(0, 100);
+  }
+  if (typeof body.activeLeafId === 'string') {
+    update.activeLeafId = body.activeLeafId;
+  }
+  if (typeof body.activeMode === 'string') {
+    if (!MODES.some(mode => mode.id === body.activeMode)) {
+      return NextResponse.json({ error: 'Unknown mode' }, { status: 400 });
+    }
+    update.activeMode = body.activeMode;
+  }
+  if (typeof body.activeTool === 'string' || body.activeTool === null) {
+    if (body.activeTool !== null && !getTool(body.activeTool)) {
+      return NextResponse.json({ error: 'Unknown tool' }, { status: 400 });
+    }
+    update.activeTool = body.activeTool;
+  }
+  if (typeof body.activeModel === 'string') {
+    if (!getModel(body.activeModel)) {
+      return NextResponse.json({ error: 'Unknown model' }, { status: 400 });
+    }
+    update.activeModel = body.activeModel;
+  }
+
+  try {
+    const chat = await updateChat(params.id, update);
+
+    if (!chat) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(chat);
+  } catch (error) {
+    console.error('Error updating chat:', error);
+    return NextResponse.json({ error: 'Failed to update chat' }, { status: 500 });
+  }
+}
+
+/**
+ * API route to delete a chat, its messages and its document index.
+ *
+ * @returns {NextResponse} - `{ ok: true }` once the chat is gone.
+ */
+export async function DELETE(req: Request, { params }: { params: { id: string } }) {
+  try {
+    await deleteChat(params.id);
+    await deleteChatIndex(params.id);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error('Error deleting chat:', error);
+    return NextResponse.json({ error: 'Failed to delete chat' }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { listChats } from '@/lib/chat';
+
+// The list changes with every message, so never prerender it
+export const dynamic = 'force-dynamic';
+
+/**
+ * API route to list stored chats for the history sidebar.
+ *
+ * @returns {NextResponse} - Chat summaries, most recently updated first.
+ */
+export async function GET() {
+  try {
+    const chats = await listChats();
+    return NextResponse.json({ chats });
+  } catch (error) {
+    console.error('Error listing chats:', error);
+    return NextResponse.json({ error: 'Failed to list chats' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { readLocalFile } from '@/lib/storage';
+
+// Types the browser only displays, so they are safe to open from this origin
+const INLINE_TYPES = [
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+  'application/pdf', 'text/plain',
+];
+
+const isPassive = (contentType: string) =>
+  INLINE_TYPES.includes(contentType) || contentType.startsWith('audio/') || contentType.startsWith('video/');
+
+/**
+ * API route to serve files stored by the local upload provider. Media is
+ * shown inline; anything that could run script here, such as HTML or SVG,
+ * is only offered as a download, in a sandbox in case it is opened anyway.
+ *
+ * @param {Request} req - The incoming request object.
+ * @returns {Response} - The file contents with their original content type.
+ */
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const file = await readLocalFile(params.id);
+
+    if (!file) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    const inline = isPassive(file.contentType);
+    return new Response(file.data, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename="${encodeURIComponent(file.name)}"`,
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+        ...(!inline && { 'Content-Security-Policy': 'sandbox' }),
+      },
+    });
+  } catch (error) {
+    console.error('Error serving file:', error);
+    return new Response('Failed to read file', { status: 500 });
+  }
+}
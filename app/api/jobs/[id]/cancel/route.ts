@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { cancelJob, getJob, isJobSettled, jobToMessage } from '@/lib/jobs';
+
+/**
+ * API route to cancel a pending job. The cancel is forwarded to the job's
+ * provider, or to n8n through its cancel webhook, and the placeholder
+ * message settles into a cancelled state.
+ *
+ * @param {Request} req - The incoming request object.
+ * @returns {NextResponse} - `{ status, message }` with the job's final message,
+ * or 409 if the job had already finished.
+ */
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  const job = await getJob(params.id);
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  if (isJobSettled(job)) {
+    return NextResponse.json(
+      { error: 'Job has already finished', status: job.status, message: jobToMessage(job) },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const cancelled = await cancelJob(job, { origin: new URL(req.url).origin });
+    return NextResponse.json({ status: cancelled.status, message: jobToMessage(cancelled) });
+  } catch (error) {
+    console.error('Error cancelling job:', error);
+    return NextResponse.json({ error: 'Could not cancel the job' }, { status: 502 });
+  }
+}
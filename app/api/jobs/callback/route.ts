@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { applyJobUpdate, getJob, getJobProvider, verifyJobCallback } from '@/lib/jobs';
+
+/**
+ * Webhook for n8n or a provider such as Replicate to report on a job. The
+ * URL is handed out by `/api/chat` and carries a signed token for one job;
+ * the body is interpreted by that job's provider adapter.
+ *
+ * @param {Request} req - JSON job report; `jobId` and `token` in the query string.
+ * @returns {NextResponse} - `{ ok: true }` once the update is recorded.
+ */
+export async function POST(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const jobId = searchParams.get('jobId');
+  const token = searchParams.get('token');
+
+  if (!jobId || !token || !verifyJobCallback(jobId, token)) {
+    return NextResponse.json({ error: 'Invalid callback token' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Invalid callback body' }, { status: 400 });
+  }
+
+  try {
+    const job = await getJob(jobId);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const update = getJobProvider(job.provider).parseCallback(job, body);
+    await applyJobUpdate(job, update, { origin: new URL(req.url).origin });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error('Error handling job callback:', error);
+    return NextResponse.json({ error: 'Failed to record job result' }, { status: 500 });
+  }
+}
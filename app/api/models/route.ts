@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getDefaultModel, listModels, toModelInfo } from '@/lib/models';
+
+// The registry is read from the environment at request time
+export const dynamic = 'force-dynamic';
+
+/**
+ * API route to describe the chat models users can pick from.
+ *
+ * @returns {NextResponse} - `{ models, defaultModel }`, each model with its
+ * id, label, provider, capabilities and context window.
+ */
+export async function GET() {
+  return NextResponse.json({
+    models: listModels().map(toModelInfo),
+    defaultModel: getDefaultModel().id,
+  });
+}
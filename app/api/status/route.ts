@@ -1,64 +1,47 @@
 import { NextResponse } from 'next/server';
+import { getJob, jobToMessage, refreshJob, type Job } from '@/lib/jobs';
+
+// Shape returned to the client for any job, whatever attachments it produced
+function jobResponse(job: Job) {
+  return NextResponse.json({
+    status: job.status,
+    ...(job.progress !== undefined && { progress: job.progress }),
+    ...((job.status === 'completed' || job.status === 'cancelled') && { result: jobToMessage(job) }),
+    ...(job.status === 'failed' && { error: job.error }),
+  });
+}
 
 /**
- * API route to check the status of a long-running job from Replicate.
+ * API route to check the status of a long-running job. This is the
+ * polling fallback; completions normally arrive through
+ * `/api/jobs/callback` and are pushed to the client over SSE.
+ *
+ * Jobs are looked up by their opaque id only; provider URLs never come
+ * from the client.
  *
  * @param {Request} req - The incoming request object.
  * @returns {NextResponse} - The response containing the job status.
  */
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
-  const replicateStreamUrl = searchParams.get('replicateStreamUrl');
+  const jobId = searchParams.get('jobId');
 
-  if (!replicateStreamUrl) {
-    return NextResponse.json({ error: 'Missing replicateStreamUrl' }, { status: 400 });
+  if (!jobId) {
+    return NextResponse.json({ error: 'Missing jobId' }, { status: 400 });
   }
 
-  try {
-    const response = await fetch(replicateStreamUrl, {
-      headers: {
-        'Authorization': `Bearer ${process.env.REPLICATE_API_TOKEN}`,
-        'Content-Type': 'application/json',
-      }
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Replicate status check failed with status: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    // Translate Replicate's status to our app's status
-    if (data.status === 'succeeded') {
-      // Assuming the output is a URL to the video file
-      const videoUrl = Array.isArray(data.output) ? data.output[0] : data.output;
-      return NextResponse.json({
-        status: 'completed',
-        result: {
-          role: 'assistant',
-          content: 'Here you go, Daddy. You like what you see?',
-          experimental_attachments: [{
-            name: 'video.mp4',
-            contentType: 'video/mp4',
-            url: videoUrl,
-          }],
-        },
-      });
-    } else if (data.status === 'failed' || data.status === 'canceled') {
-      return NextResponse.json({
-        status: 'failed',
-        error: data.error || 'The video generation failed or was canceled.',
-      });
-    } else {
-      // Otherwise, it's still processing ('starting', 'processing')
-      return NextResponse.json({ status: 'processing' });
-    }
+  const job = await getJob(jobId);
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
 
+  try {
+    return jobResponse(await refreshJob(job, { origin: new URL(req.url).origin }));
   } catch (error) {
-    console.error('Error checking Replicate job status:', error);
+    console.error('Error checking job status:', error);
     return NextResponse.json(
       { status: 'failed', error: 'Could not retrieve job status.' },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
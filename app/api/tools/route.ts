@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { listTools } from '@/lib/tools';
+
+// Which tools run as jobs is read from the environment at request time
+export const dynamic = 'force-dynamic';
+
+/**
+ * API route to describe the available tools, so the Tools menu can render
+ * each one with its settings.
+ *
+ * @returns {NextResponse} - `{ tools }`, each with its id, label, icon,
+ * whether it runs as a job and its parameters.
+ */
+export async function GET() {
+  return NextResponse.json({ tools: listTools() });
+}
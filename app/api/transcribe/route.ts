@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { fileRejectedResponse, getStorageProvider } from '@/lib/storage';
+import { getTranscriptionProvider, type AudioInput } from '@/lib/transcription';
+import { validateFileContents, validateFileMeta } from '@/lib/upload-policy';
+
+/**
+ * API route to transcribe speech with the configured transcription provider.
+ * Takes either an audio file, or the URL of an attachment uploaded through
+ * `/api/upload`; other URLs are not fetched.
+ *
+ * @param {Request} req - Multipart form data with a `file` field, or JSON `{ url }`.
+ * @returns {NextResponse} - The transcript as `{ text, language? }`.
+ */
+export async function POST(req: Request) {
+  let audio: AudioInput;
+
+  try {
+    if ((req.headers.get('Content-Type') || '').includes('application/json')) {
+      const body = await req.json().catch(() => ({}));
+      if (typeof body.url !== 'string') {
+        return NextResponse.json({ error: 'No url provided' }, { status: 400 });
+      }
+
+      const stored = await getStorageProvider().read(body.url, { origin: new URL(req.url).origin });
+      if (!stored) {
+        return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+      }
+      audio = stored;
+    } else {
+      const formData = await req.formData();
+      const file = formData.get('file');
+
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+      }
+
+      const metaError = validateFileMeta(file);
+      if (metaError) return fileRejectedResponse(metaError);
+
+      const data = new Uint8Array(await file.arrayBuffer());
+      const contentError = validateFileContents(file, data);
+      if (contentError) return fileRejectedResponse(contentError);
+
+      audio = { name: file.name, contentType: file.type, data };
+    }
+  } catch (error) {
+    console.error('Error reading audio for transcription:', error);
+    return NextResponse.json({ error: 'Failed to read audio' }, { status: 500 });
+  }
+
+  if (!audio.contentType.startsWith('audio/')) {
+    return NextResponse.json({ error: 'Only audio can be transcribed' }, { status: 415 });
+  }
+
+  try {
+    const transcript = await getTranscriptionProvider().transcribe(audio);
+    return NextResponse.json(transcript);
+  } catch (error) {
+    console.error('Error transcribing audio:', error);
+    return NextResponse.json({ error: 'Failed to transcribe audio' }, { status: 502 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getSpeechProvider, toSpokenText } from '@/lib/speech';
+
+// OpenAI's speech endpoint takes at most 4096 characters per request
+const MAX_TEXT_LENGTH = 4096;
+
+/**
+ * API route to read text aloud with the configured speech provider. The
+ * text is treated as markdown and reduced to what should be spoken.
+ *
+ * @param {Request} req - JSON `{ text }`.
+ * @returns {Response} - The audio, e.g. `audio/mpeg`.
+ */
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  if (typeof body.text !== 'string') {
+    return NextResponse.json({ error: 'No text provided' }, { status: 400 });
+  }
+
+  const text = toSpokenText(body.text);
+  if (!text) {
+    return NextResponse.json({ error: 'Nothing to speak' }, { status: 400 });
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    return NextResponse.json({ error: `Text is longer than ${MAX_TEXT_LENGTH} characters` }, { status: 413 });
+  }
+
+  try {
+    const audio = await getSpeechProvider().synthesize(text);
+    return new Response(audio.data, {
+      headers: {
+        'Content-Type': audio.contentType,
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error synthesizing speech:', error);
+    return NextResponse.json({ error: 'Failed to synthesize speech' }, { status: 502 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { fileRejectedResponse, getStorageProvider } from '@/lib/storage';
+import { validateFileContents, validateFileMeta } from '@/lib/upload-policy';
+
+/**
+ * API route to upload a chat attachment to the configured storage provider.
+ * The file must pass the shared upload policy, including a check that its
+ * contents match the declared type.
+ *
+ * @param {Request} req - Multipart form data with a `file` field.
+ * @returns {NextResponse} - The stored attachment as `{ name, contentType, url }`.
+ */
+export async function POST(req: Request) {
+  try {
+    // Parse the multipart form data
+    const formData = await req.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    // Reject on the declared size and type before reading the body
+    const metaError = validateFileMeta(file);
+    if (metaError) return fileRejectedResponse(metaError);
+
+    const data = new Uint8Array(await file.arrayBuffer());
+    const contentError = validateFileContents(file, data);
+    if (contentError) return fileRejectedResponse(contentError);
+
+    const provider = getStorageProvider();
+    const attachment = await provider.put(
+      {
+        name: file.name,
+        contentType: file.type,
+        data,
+      },
+      { origin: new URL(req.url).origin }
+    );
+
+    return NextResponse.json(attachment);
+  } catch (error) {
+    console.error('Error uploading file:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload file' },
+      { status: 500 }
+    );
+  }
+}
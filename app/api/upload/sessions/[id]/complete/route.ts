@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import {
+  assembleUploadSession,
+  deleteUploadSession,
+  fileRejectedResponse,
+  getStorageProvider,
+  getUploadSession,
+} from '@/lib/storage';
+import { validateFileContents } from '@/lib/upload-policy';
+
+/**
+ * API route to finish a chunked upload. The parts are joined, checked
+ * against the upload policy and handed to the storage provider.
+ *
+ * @returns {NextResponse} - The stored attachment as `{ name, contentType, url }`.
+ */
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  const session = await getUploadSession(params.id);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+  }
+
+  try {
+    const data = await assembleUploadSession(session);
+    const file = { name: session.name, type: session.contentType, size: session.size };
+
+    const error = validateFileContents(file, data);
+    if (error) {
+      await deleteUploadSession(session.id);
+      return fileRejectedResponse(error);
+    }
+
+    const attachment = await getStorageProvider().put(
+      { name: session.name, contentType: session.contentType, data },
+      { origin: new URL(req.url).origin }
+    );
+    await deleteUploadSession(session.id);
+
+    return NextResponse.json(attachment);
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Error completing upload:', error);
+    return NextResponse.json({ error: 'Failed to complete upload' }, { status: 500 });
+  }
+}
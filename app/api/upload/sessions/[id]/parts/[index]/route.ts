@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getPartSize, getUploadSession, readPartBody, writeUploadPart } from '@/lib/storage';
+
+/**
+ * API route to store one part of a chunked upload. The request body is
+ * the raw bytes of the part; re-sending a part replaces it. Bodies longer
+ * than the part should be are refused before they are read in full.
+ *
+ * @returns {NextResponse} - `{ index, received }` once the part is stored.
+ */
+export async function PUT(req: Request, { params }: { params: { id: string; index: string } }) {
+  const session = await getUploadSession(params.id);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+  }
+
+  const index = Number(params.index);
+
+  try {
+    const expected = getPartSize(session, index);
+    const declared = Number(req.headers.get('Content-Length'));
+    if (declared > expected) {
+      return NextResponse.json(
+        { error: `Part ${index} should be ${expected} bytes, got ${declared}` },
+        { status: 413 }
+      );
+    }
+
+    const data = await readPartBody(req.body, expected);
+    await writeUploadPart(session, index, data);
+    return NextResponse.json({ index, received: Array.from(new Set([...session.received, index])) });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error storing upload part:', error);
+    return NextResponse.json({ error: 'Failed to store upload part' }, { status: 500 });
+  }
+}
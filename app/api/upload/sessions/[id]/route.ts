@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { deleteUploadSession, getUploadSession } from '@/lib/storage';
+
+/**
+ * API route to check a chunked upload, used to resume after a dropped
+ * connection.
+ *
+ * @returns {NextResponse} - The session with the indexes of received parts.
+ */
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  const session = await getUploadSession(params.id);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(session);
+}
+
+/**
+ * API route to abandon a chunked upload and discard its parts.
+ */
+export async function DELETE(req: Request, { params }: { params: { id: string } }) {
+  await deleteUploadSession(params.id);
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { createUploadSession, fileRejectedResponse } from '@/lib/storage';
+import { validateFileMeta } from '@/lib/upload-policy';
+
+/**
+ * API route to start a chunked upload. The declared name, type and size
+ * are checked against the upload policy before any data is accepted.
+ *
+ * @param {Request} req - JSON body with `name`, `contentType` and `size`.
+ * @returns {NextResponse} - The new session, including `chunkSize` and `totalChunks`.
+ */
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  const { name, contentType, size } = body;
+
+  if (typeof name !== 'string' || typeof contentType !== 'string' || !Number.isInteger(size) || size <= 0) {
+    return NextResponse.json({ error: 'Missing or invalid file details' }, { status: 400 });
+  }
+
+  const error = validateFileMeta({ name, type: contentType, size });
+  if (error) return fileRejectedResponse(error);
+
+  try {
+    const session = await createUploadSession({ name, contentType, size });
+    return NextResponse.json(session);
+  } catch (error) {
+    console.error('Error creating upload session:', error);
+    return NextResponse.json({ error: 'Failed to start upload' }, { status: 500 });
+  }
+}
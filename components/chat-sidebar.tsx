@@ -0,0 +1,196 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { toast } from "sonner";
+import type { ChatSummary } from "@/lib/types";
+
+// Format a chat's last update relative to now
+const formatTimestamp = (time: number) => {
+  const diff = Date.now() - time;
+  if (diff < 60 * 1000) return "Just now";
+  if (diff < 60 * 60 * 1000) return `${Math.floor(diff / 60000)}m ago`;
+  if (diff < 24 * 60 * 60 * 1000) return `${Math.floor(diff / 3600000)}h ago`;
+  return new Date(time).toLocaleDateString();
+};
+
+export function ChatSidebar({
+  isOpen,
+  currentChatId,
+  onClose,
+  onSelect,
+  onNewChat,
+  onDeleted,
+}: {
+  isOpen: boolean;
+  currentChatId: string | null;
+  onClose: () => void;
+  onSelect: (chatId: string) => void;
+  onNewChat: () => void;
+  onDeleted: (chatId: string) => void;
+}) {
+  const [chats, setChats] = useState<ChatSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+
+  // Refresh the list every time the sidebar opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadChats = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch('/api/chats');
+        if (!response.ok) throw new Error(`Failed to list chats: ${response.status}`);
+        const data = await response.json();
+        setChats(data.chats || []);
+      } catch (error) {
+        console.error('Error loading chats:', error);
+        toast.error("Could not load your chats");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadChats();
+  }, [isOpen]);
+
+  const startRename = (chat: ChatSummary) => {
+    setEditingId(chat.id);
+    setEditTitle(chat.title);
+  };
+
+  const submitRename = async (chatId: string) => {
+    const title = editTitle.trim();
+    setEditingId(null);
+    if (!title) return;
+
+    try {
+      const response = await fetch(`/api/chats/${encodeURIComponent(chatId)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title }),
+      });
+      if (!response.ok) throw new Error(`Rename failed: ${response.status}`);
+      setChats(prev => prev.map(c => (c.id === chatId ? { ...c, title } : c)));
+    } catch (error) {
+      console.error('Error renaming chat:', error);
+      toast.error("Could not rename chat");
+    }
+  };
+
+  const handleDelete = async (chat: ChatSummary) => {
+    if (!window.confirm(`Delete "${chat.title}"? This cannot be undone.`)) return;
+
+    try {
+      const response = await fetch(`/api/chats/${encodeURIComponent(chat.id)}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error(`Delete failed: ${response.status}`);
+      setChats(prev => prev.filter(c => c.id !== chat.id));
+      onDeleted(chat.id);
+    } catch (error) {
+      console.error('Error deleting chat:', error);
+      toast.error("Could not delete chat");
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+        >
+          <motion.aside
+            className="h-full w-80 max-w-[85vw] bg-white dark:bg-zinc-900 border-r border-zinc-200 dark:border-zinc-800 flex flex-col"
+            initial={{ x: -320 }}
+            animate={{ x: 0 }}
+            exit={{ x: -320 }}
+            transition={{ duration: 0.2, ease: "easeOut" }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between p-4 border-b border-zinc-200 dark:border-zinc-800">
+              <h2 className="font-semibold text-zinc-800 dark:text-zinc-200">Chats</h2>
+              <button
+                onClick={() => {
+                  onNewChat();
+                  onClose();
+                }}
+                className="px-3 py-1 text-sm bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-md transition-colors"
+              >
+                New Chat
+              </button>
+            </div>
+
+            <div className="flex-grow overflow-y-auto p-2 flex flex-col gap-1">
+              {isLoading && chats.length === 0 && (
+                <div className="p-4 text-sm text-zinc-400 text-center">Loading...</div>
+              )}
+              {!isLoading && chats.length === 0 && (
+                <div className="p-4 text-sm text-zinc-400 text-center">No conversations yet</div>
+              )}
+              {chats.map(chat => (
+                <div
+                  key={chat.id}
+                  className={`group p-2 rounded-lg cursor-pointer transition-colors ${
+                    chat.id === currentChatId
+                      ? 'bg-blue-500 text-white'
+                      : 'hover:bg-zinc-100 dark:hover:bg-zinc-800 text-zinc-800 dark:text-zinc-200'
+                  }`}
+                  onClick={() => editingId !== chat.id && onSelect(chat.id)}
+                >
+                  {editingId === chat.id ? (
+                    <input
+                      autoFocus
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      onBlur={() => submitRename(chat.id)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') submitRename(chat.id);
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="w-full border rounded px-2 py-0.5 text-sm text-zinc-800 dark:bg-zinc-800 dark:text-zinc-200 dark:border-zinc-700 focus:outline-none"
+                    />
+                  ) : (
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="text-sm font-medium truncate">{chat.title}</div>
+                      <div className="flex-shrink-0 text-[10px] opacity-70">{formatTimestamp(chat.updatedAt)}</div>
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-xs truncate opacity-70">{chat.preview}</div>
+                    <div className="flex-shrink-0 flex gap-2 text-xs opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          startRename(chat);
+                        }}
+                        className="hover:underline"
+                        aria-label={`Rename ${chat.title}`}
+                      >
+                        Rename
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(chat);
+                        }}
+                        className="hover:underline"
+                        aria-label={`Delete ${chat.title}`}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </motion.aside>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
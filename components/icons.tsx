@@ -1,3 +1,6 @@
+import type { ModeIconName } from "@/lib/modes";
+import type { ToolIconName } from "@/lib/tools";
+
 export const BotIcon = () => {
   return (
     <svg
@@ -74,3 +77,58 @@ export const VercelIcon = () => {
     </svg>
   );
 };
+
+// Icons for the entries of the mode registry (lib/modes)
+export const ModeIcon = ({ name }: { name: ModeIconName }) => {
+  return (
+    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      {name === "shield" ? (
+        <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"></path>
+      ) : (
+        <>
+          <polyline points="16 18 22 12 16 6"></polyline>
+          <polyline points="8 6 2 12 8 18"></polyline>
+        </>
+      )}
+    </svg>
+  );
+};
+
+// Icons for the entries of the tool manifest (lib/tools)
+export const ToolIcon = ({ name }: { name: ToolIconName }) => {
+  return (
+    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      {name === "image" && (
+        <>
+          <rect x="3" y="3" width="18" height="18" rx="2"></rect>
+          <circle cx="8.5" cy="8.5" r="1.5"></circle>
+          <path d="M21 15l-5-5L5 21"></path>
+        </>
+      )}
+      {name === "video" && (
+        <>
+          <path d="m22 8-6 4 6 4V8z"></path>
+          <rect x="2" y="6" width="14" height="12" rx="2"></rect>
+        </>
+      )}
+      {name === "audio" && (
+        <>
+          <path d="M3 10v4"></path>
+          <path d="M6 8v8"></path>
+          <path d="M9 12v0"></path>
+          <path d="M12 6v12"></path>
+          <path d="M15 10v4"></path>
+          <path d="M18 8v8"></path>
+          <path d="M21 10v4"></path>
+        </>
+      )}
+      {name === "voice" && (
+        <>
+          <path d="M12 1a3 3 0 0 0-3 3v8a3 3 0 0 0 6 0V4a3 3 0 0 0-3-3z"></path>
+          <path d="M19 10v2a7 7 0 0 1-14 0v-2"></path>
+          <line x1="12" y1="19" x2="12" y2="23"></line>
+        </>
+      )}
+    </svg>
+  );
+};
@@ -0,0 +1,282 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+// Container formats in order of preference; browsers support different ones
+const RECORDING_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4", "audio/ogg;codecs=opus"];
+
+// Pressing the mic longer than this records only while held
+const HOLD_THRESHOLD_MS = 400;
+// Clips shorter than this are treated as accidental taps
+const MIN_CLIP_MS = 500;
+// Hard limit on a single clip
+const MAX_CLIP_MS = 2 * 60 * 1000;
+
+// Hands-free mode: input level (0-1) that counts as speech, and how long
+// it has to stay below that after speaking before the clip is sent
+const SPEECH_LEVEL = 0.08;
+const SILENCE_MS = 1500;
+
+const EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/mp4": "m4a",
+  "audio/ogg": "ogg",
+};
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+};
+
+type Recording = {
+  recorder: MediaRecorder;
+  stream: MediaStream;
+  audioContext: AudioContext;
+  chunks: Blob[];
+  startedAt: number;
+  // Whether the clip should be sent when the recorder stops
+  keep: boolean;
+  heardSpeech: boolean;
+  silentSince: number | null;
+  frame: number;
+};
+
+/**
+ * Mic control for the Voice Chat tool. Tap to start and stop, or hold to
+ * talk; hands-free mode records again after every reply and sends each
+ * clip once the speaker goes quiet. Finished clips are handed to
+ * `onRecorded` as audio files for the normal attachment upload.
+ */
+export function VoiceRecorder({
+  isBusy,
+  onRecorded,
+}: {
+  isBusy: boolean;
+  onRecorded: (file: File) => void;
+}) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [isHandsFree, setIsHandsFree] = useState(false);
+  // A clip has been handed over and its reply is not in yet
+  const [isAwaitingReply, setIsAwaitingReply] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [level, setLevel] = useState(0);
+  const recordingRef = useRef<Recording | null>(null);
+  const isStartingRef = useRef(false);
+  const sawBusyRef = useRef(false);
+  const pressedAtRef = useRef<number | null>(null);
+  const handsFreeRef = useRef(isHandsFree);
+  handsFreeRef.current = isHandsFree;
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  // The recorder finishes asynchronously; `isRecording` clears in its onstop
+  const stopRecording = useCallback((keep: boolean) => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+
+    recording.keep = keep;
+    cancelAnimationFrame(recording.frame);
+    setLevel(0);
+    if (recording.recorder.state !== "inactive") {
+      recording.recorder.stop();
+    } else {
+      setIsRecording(false);
+    }
+  }, []);
+
+  const startRecording = useCallback(async () => {
+    if (recordingRef.current || isStartingRef.current) return;
+
+    if (typeof MediaRecorder === "undefined" || !navigator.mediaDevices?.getUserMedia) {
+      toast.error("Voice recording is not supported in this browser");
+      setIsHandsFree(false);
+      return;
+    }
+
+    // Guards against a second start while the permission prompt is open
+    isStartingRef.current = true;
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      console.error("Microphone access denied:", error);
+      toast.error("Allow microphone access to record a voice message");
+      setIsHandsFree(false);
+      return;
+    } finally {
+      isStartingRef.current = false;
+    }
+
+    const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+
+    const recording: Recording = {
+      recorder,
+      stream,
+      audioContext,
+      chunks: [],
+      startedAt: Date.now(),
+      keep: true,
+      heardSpeech: false,
+      silentSince: null,
+      frame: 0,
+    };
+    recordingRef.current = recording;
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) recording.chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      audioContext.close().catch(() => {});
+      setIsRecording(false);
+
+      const duration = Date.now() - recording.startedAt;
+      if (!recording.keep || duration < MIN_CLIP_MS || recording.chunks.length === 0) return;
+
+      // The container type without codec parameters, as the upload policy expects
+      const type = (recorder.mimeType || mimeType || "audio/webm").split(";")[0];
+      const blob = new Blob(recording.chunks, { type });
+      setIsAwaitingReply(true);
+      onRecordedRef.current(new File([blob], `voice-${Date.now()}.${EXTENSIONS[type] || "webm"}`, { type }));
+    };
+
+    // Level meter, timer and silence detection share one animation loop
+    const samples = new Uint8Array(analyser.fftSize);
+    const tick = () => {
+      analyser.getByteTimeDomainData(samples);
+      let sum = 0;
+      for (const sample of samples) {
+        const value = (sample - 128) / 128;
+        sum += value * value;
+      }
+      const rms = Math.min(1, Math.sqrt(sum / samples.length) * 4);
+      const now = Date.now();
+      setLevel(rms);
+      setElapsed(now - recording.startedAt);
+
+      if (rms >= SPEECH_LEVEL) {
+        recording.heardSpeech = true;
+        recording.silentSince = null;
+      } else if (recording.silentSince === null) {
+        recording.silentSince = now;
+      }
+
+      if (now - recording.startedAt >= MAX_CLIP_MS) {
+        stopRecording(true);
+        return;
+      }
+      if (
+        handsFreeRef.current &&
+        recording.heardSpeech &&
+        recording.silentSince !== null &&
+        now - recording.silentSince >= SILENCE_MS
+      ) {
+        stopRecording(true);
+        return;
+      }
+      recording.frame = requestAnimationFrame(tick);
+    };
+
+    recorder.start(250);
+    setElapsed(0);
+    setIsRecording(true);
+    recording.frame = requestAnimationFrame(tick);
+  }, [stopRecording]);
+
+  // A sent clip counts as answered once the page has been busy with it and is idle again
+  useEffect(() => {
+    if (!isAwaitingReply) return;
+    if (isBusy) {
+      sawBusyRef.current = true;
+    } else if (sawBusyRef.current) {
+      sawBusyRef.current = false;
+      setIsAwaitingReply(false);
+    }
+  }, [isAwaitingReply, isBusy]);
+
+  // Hands-free loop: listen again as soon as the previous reply is in
+  useEffect(() => {
+    if (isHandsFree && !isBusy && !isRecording && !isAwaitingReply) {
+      startRecording();
+    }
+  }, [isHandsFree, isBusy, isRecording, isAwaitingReply, startRecording]);
+
+  // Never leave the microphone open after the control goes away
+  useEffect(() => () => stopRecording(false), [stopRecording]);
+
+  const handlePointerDown = () => {
+    if (isHandsFree) return;
+    if (isRecording) {
+      stopRecording(true);
+      return;
+    }
+    pressedAtRef.current = Date.now();
+    startRecording();
+  };
+
+  const handlePointerUp = () => {
+    const pressedAt = pressedAtRef.current;
+    pressedAtRef.current = null;
+    // A long press was hold-to-talk; a short one leaves recording on until the next tap
+    if (pressedAt !== null && Date.now() - pressedAt >= HOLD_THRESHOLD_MS) {
+      stopRecording(true);
+    }
+  };
+
+  const toggleHandsFree = () => {
+    if (isHandsFree) {
+      // Leaving hands-free drops the clip in progress
+      stopRecording(false);
+    }
+    setIsHandsFree(!isHandsFree);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        type="button"
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        disabled={isBusy && !isRecording}
+        className={`p-2 rounded-full transition-colors disabled:opacity-40 ${
+          isRecording
+            ? "bg-red-500 text-white"
+            : "text-zinc-500 hover:bg-zinc-200 dark:hover:bg-zinc-700"
+        }`}
+        aria-label={isRecording ? "Stop recording" : "Record a voice message"}
+      >
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 1a3 3 0 0 0-3 3v8a3 3 0 0 0 6 0V4a3 3 0 0 0-3-3z"></path><path d="M19 10v2a7 7 0 0 1-14 0v-2"></path><line x1="12" y1="19" x2="12" y2="23"></line></svg>
+      </button>
+
+      {isRecording && (
+        <div className="flex items-center gap-2 text-xs text-zinc-500 dark:text-zinc-400">
+          <span className="tabular-nums">{formatElapsed(elapsed)}</span>
+          <div className="w-12 h-1.5 rounded-full bg-zinc-200 dark:bg-zinc-700 overflow-hidden">
+            <div className="h-full bg-red-500 transition-[width] duration-75" style={{ width: `${level * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={toggleHandsFree}
+        className={`px-2 py-1 text-xs rounded-full transition-colors ${
+          isHandsFree
+            ? "bg-blue-500 text-white"
+            : "bg-zinc-100 dark:bg-zinc-800 text-zinc-500 hover:bg-zinc-200 dark:hover:bg-zinc-700"
+        }`}
+        aria-pressed={isHandsFree}
+      >
+        Hands-free
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import type { Chat } from '@/lib/types';
+import { createFileChatStore, createMemoryChatStore } from './file-store';
+
+const emptyChat = (id: string): Chat => ({ id, title: '', createdAt: 0, updatedAt: 0, messages: [] });
+
+const append = (content: string) => (chat: Chat | null): Chat => {
+  const base = chat ?? emptyChat('chat-1');
+  return { ...base, messages: [...base.messages, { id: content, role: 'user', content }] };
+};
+
+const dirs: string[] = [];
+
+async function createTempFileStore() {
+  const dir = await mkdtemp(path.join(tmpdir(), 'chats-'));
+  dirs.push(dir);
+  return createFileChatStore(dir);
+}
+
+afterAll(async () => {
+  await Promise.all(dirs.map(dir => rm(dir, { recursive: true, force: true })));
+});
+
+describe.each([
+  ['memory', async () => createMemoryChatStore()],
+  ['file', createTempFileStore],
+])('%s chat store', (_name, createStore) => {
+  it('keeps every concurrent update to the same chat', async () => {
+    const store = await createStore();
+    await Promise.all(['a', 'b', 'c', 'd', 'e'].map(content => store.updateChat('chat-1', append(content))));
+
+    const chat = await store.getChat('chat-1');
+    expect(chat?.messages.map(message => message.content).sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('leaves the chat alone when the change returns null', async () => {
+    const store = await createStore();
+    await store.updateChat('chat-1', () => emptyChat('chat-1'));
+
+    expect(await store.updateChat('chat-1', () => null)).toEqual(emptyChat('chat-1'));
+    expect(await store.updateChat('missing', () => null)).toBeNull();
+  });
+
+  it('lists summaries of the stored chats, most recent first', async () => {
+    const store = await createStore();
+    await store.updateChat('old', () => ({ ...emptyChat('old'), title: 'Old', updatedAt: 1 }));
+    await store.updateChat('new', () => ({ ...append('hello')(emptyChat('new')), updatedAt: 2 }));
+    await store.updateChat('gone', () => emptyChat('gone'));
+    await store.deleteChat('gone');
+
+    expect(await store.listChats()).toEqual([
+      { id: 'new', title: 'New Chat', preview: 'hello', updatedAt: 2 },
+      { id: 'old', title: 'Old', preview: '', updatedAt: 1 },
+    ]);
+  });
+
+  it('keeps later updates running after one fails', async () => {
+    const store = await createStore();
+    const failing = store.updateChat('chat-1', () => {
+      throw new Error('boom');
+    });
+    const next = store.updateChat('chat-1', append('after'));
+
+    await expect(failing).rejects.toThrow('boom');
+    expect((await next)?.messages.map(message => message.content)).toEqual(['after']);
+  });
+});
+
+describe('file chat store', () => {
+  it('summarizes chats saved before summaries were kept', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'chats-'));
+    dirs.push(dir);
+    await writeFile(path.join(dir, 'legacy.json'), JSON.stringify({ ...emptyChat('legacy'), title: 'Legacy', updatedAt: 5 }));
+
+    const store = createFileChatStore(dir);
+    expect(await store.listChats()).toEqual([{ id: 'legacy', title: 'Legacy', preview: '', updatedAt: 5 }]);
+  });
+});
@@ -0,0 +1,144 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Chat, ChatSummary } from '@/lib/types';
+import type { ChatStore } from './store';
+import { byMostRecent, summarizeChat } from './summary';
+
+/**
+ * Runs writes to the same chat one after another. Both local stores keep
+ * their data in this process, so queueing here is enough to stop one
+ * read-change-write from overwriting another.
+ */
+function createChatQueue() {
+  const tails = new Map<string, Promise<unknown>>();
+
+  return <T>(chatId: string, task: () => Promise<T>): Promise<T> => {
+    const run = (tails.get(chatId) ?? Promise.resolve()).then(task);
+    const tail = run.catch(() => undefined);
+    tails.set(chatId, tail);
+    // Forget the queue once it drains, so finished chats don't pile up
+    tail.then(() => {
+      if (tails.get(chatId) === tail) tails.delete(chatId);
+    });
+    return run;
+  };
+}
+
+/**
+ * In-memory store for local development. Chats live in a Map for the
+ * lifetime of the server process.
+ */
+export function createMemoryChatStore(): ChatStore {
+  const chats = new Map<string, Chat>();
+  const summaries = new Map<string, ChatSummary>();
+  const queue = createChatQueue();
+
+  return {
+    async getChat(chatId) {
+      return chats.get(chatId) ?? null;
+    },
+
+    updateChat(chatId, change) {
+      return queue(chatId, async () => {
+        const updated = change(chats.get(chatId) ?? null);
+        if (!updated) return chats.get(chatId) ?? null;
+        chats.set(chatId, updated);
+        summaries.set(chatId, summarizeChat(updated));
+        return updated;
+      });
+    },
+
+    async deleteChat(chatId) {
+      chats.delete(chatId);
+      summaries.delete(chatId);
+    },
+
+    async listChats() {
+      return Array.from(summaries.values()).sort(byMostRecent);
+    },
+  };
+}
+
+/**
+ * File-backed store for local development. Each chat is written to
+ * `<dir>/<id>.json`, so conversations survive dev server restarts, with
+ * its sidebar entry in `<dir>/summaries/<id>.json`. Writes are only
+ * serialized within one server process.
+ */
+export function createFileChatStore(dir: string): ChatStore {
+  const summaryDir = path.join(dir, 'summaries');
+  const chatPath = (chatId: string) =>
+    path.join(dir, `${encodeURIComponent(chatId)}.json`);
+  const summaryPath = (chatId: string) =>
+    path.join(summaryDir, `${encodeURIComponent(chatId)}.json`);
+  const queue = createChatQueue();
+
+  // Write then rename, so a reader never sees a half-written file
+  async function writeJson(file: string, value: unknown) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(value), 'utf8');
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  async function readDir(directory: string): Promise<string[]> {
+    try {
+      return (await fs.readdir(directory)).filter(file => file.endsWith('.json'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async function getChat(chatId: string): Promise<Chat | null> {
+    try {
+      const raw = await fs.readFile(chatPath(chatId), 'utf8');
+      return JSON.parse(raw) as Chat;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  return {
+    getChat,
+
+    updateChat(chatId, change) {
+      return queue(chatId, async () => {
+        const current = await getChat(chatId);
+        const updated = change(current);
+        if (!updated) return current;
+
+        await writeJson(chatPath(chatId), updated);
+        await writeJson(summaryPath(chatId), summarizeChat(updated));
+        return updated;
+      });
+    },
+
+    async deleteChat(chatId) {
+      await fs.rm(chatPath(chatId), { force: true });
+      await fs.rm(summaryPath(chatId), { force: true });
+    },
+
+    async listChats() {
+      const [chatFiles, summaryFiles] = await Promise.all([readDir(dir), readDir(summaryDir)]);
+      const summarized = new Set(summaryFiles);
+
+      const summaries = await Promise.all(chatFiles.map(async (file): Promise<ChatSummary | null> => {
+        if (summarized.has(file)) {
+          return JSON.parse(await fs.readFile(path.join(summaryDir, file), 'utf8'));
+        }
+        // Chats saved before summaries were kept get one on first listing,
+        // queued so it can't replace the summary of a write in progress
+        const chatId = decodeURIComponent(file.slice(0, -'.json'.length));
+        return queue(chatId, async () => {
+          const chat = await getChat(chatId);
+          if (!chat) return null;
+          const summary = summarizeChat(chat);
+          await writeJson(summaryPath(chatId), summary);
+          return summary;
+        });
+      }));
+      return summaries.filter((summary): summary is ChatSummary => summary !== null).sort(byMostRecent);
+    },
+  };
+}
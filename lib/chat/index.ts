@@ -0,0 +1,114 @@
+import type { Chat, ChatSummary, Message } from '@/lib/types';
+import type { ChatStore } from './store';
+import { getActivePath } from './tree';
+import { createKVChatStore } from './kv-store';
+import { createFileChatStore, createMemoryChatStore } from './file-store';
+
+export type { ChatStore } from './store';
+export { getActivePath } from './tree';
+
+let store: ChatStore | null = null;
+
+/**
+ * Returns the configured chat store. `CHAT_STORE` selects the backend
+ * (`kv`, `file` or `memory`); when unset, KV is used if its credentials
+ * are present and the file store otherwise.
+ */
+export function getChatStore(): ChatStore {
+  if (!store) {
+    const driver = process.env.CHAT_STORE || (process.env.KV_REST_API_URL ? 'kv' : 'file');
+
+    if (driver === 'kv') {
+      store = createKVChatStore();
+    } else if (driver === 'memory') {
+      store = createMemoryChatStore();
+    } else {
+      store = createFileChatStore(process.env.CHAT_STORE_DIR || '.data/chats');
+    }
+  }
+  return store;
+}
+
+// Derive a short chat title from the first user message
+function titleFromMessage(message: Message): string {
+  const text = message.content.trim() || message.experimental_attachments?.[0]?.name || 'New Chat';
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+export async function getChat(chatId: string): Promise<Chat | null> {
+  return getChatStore().getChat(chatId);
+}
+
+export async function deleteChat(chatId: string): Promise<void> {
+  return getChatStore().deleteChat(chatId);
+}
+
+// Summaries for the history sidebar, most recently updated first
+export async function listChats(): Promise<ChatSummary[]> {
+  return getChatStore().listChats();
+}
+
+export type ChatUpdate = Partial<Pick<Chat, 'title' | 'activeLeafId' | 'activeMode' | 'activeTool' | 'activeModel' | 'contextSummary'>>;
+
+/**
+ * Updates chat metadata such as the title, the active branch or the
+ * mode/tool settings that are restored when the chat is reopened.
+ * Returns null for unknown chats.
+ */
+export async function updateChat(chatId: string, update: ChatUpdate): Promise<Chat | null> {
+  return getChatStore().updateChat(chatId, chat => chat && { ...chat, ...update });
+}
+
+/**
+ * Appends a message to a chat, creating the chat on first use. A message
+ * whose id is already stored replaces the earlier copy, which is how
+ * pending job placeholders are turned into their final result. A settled
+ * message is never replaced by a pending one, so a fast job callback is
+ * not undone by its placeholder being saved late.
+ *
+ * A new message without a `parentId` continues the active branch. Unless
+ * `activate` is false, the message then becomes the end of that branch.
+ */
+export async function addMessageToChat(
+  chatId: string,
+  message: Message,
+  { activate = true }: { activate?: boolean } = {}
+): Promise<void> {
+  const now = Date.now();
+  await getChatStore().updateChat(chatId, stored => appendMessage(stored, chatId, message, activate, now));
+}
+
+// The chat with `message` added or replaced, or null to leave it unchanged
+function appendMessage(stored: Chat | null, chatId: string, message: Message, activate: boolean, now: number): Chat | null {
+  const chat: Chat = stored ?? {
+    id: chatId,
+    title: '',
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+  };
+
+  const index = chat.messages.findIndex(m => m.id === message.id);
+  if (index !== -1 && message.status === 'pending' && chat.messages[index].status !== 'pending') {
+    return null;
+  }
+
+  let messages: Message[];
+  if (index === -1) {
+    const activePath = getActivePath(chat.messages, chat.activeLeafId);
+    const parentId = message.parentId !== undefined
+      ? message.parentId
+      : activePath[activePath.length - 1]?.id ?? null;
+    messages = [...chat.messages, { ...message, parentId, createdAt: message.createdAt ?? now }];
+  } else {
+    // Replacements keep their place in the tree
+    messages = chat.messages.map((m, i) => (i === index
+      ? { ...message, parentId: message.parentId !== undefined ? message.parentId : m.parentId, createdAt: m.createdAt }
+      : m));
+  }
+
+  const title = chat.title || (message.role === 'user' ? titleFromMessage(message) : '');
+  const activeLeafId = activate ? message.id : chat.activeLeafId;
+
+  return { ...chat, title, messages, activeLeafId, updatedAt: now };
+}
@@ -0,0 +1,74 @@
+import { kv } from '@vercel/kv';
+import type { Chat, ChatSummary } from '@/lib/types';
+import type { ChatStore } from './store';
+import { summarizeChat } from './summary';
+
+// Conflicting writes to one chat are retried this many times before giving up
+const MAX_UPDATE_ATTEMPTS = 5;
+
+// Saves a chat and its summary only if its version is still the one it was read at
+const SAVE_IF_UNCHANGED = `
+if (redis.call('GET', KEYS[2]) or '0') ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[2])
+redis.call('SET', KEYS[3], ARGV[3])
+redis.call('INCR', KEYS[2])
+redis.call('ZADD', KEYS[4], ARGV[4], ARGV[5])
+return 1`;
+
+const chatKey = (chatId: string) => `chat:${chatId}`;
+const versionKey = (chatId: string) => `chat-version:${chatId}`;
+const summaryKey = (chatId: string) => `chat-summary:${chatId}`;
+
+/**
+ * Vercel KV backed store. Each chat is kept as a JSON value under
+ * `chat:<id>` with its sidebar entry under `chat-summary:<id>`, and the
+ * `chats` sorted set indexes chats by last update. `chat-version:<id>`
+ * counts writes, so an update made from a stale copy is detected and
+ * retried on the fresh one.
+ */
+export function createKVChatStore(): ChatStore {
+  return {
+    async getChat(chatId) {
+      const chat = await kv.get<Chat>(chatKey(chatId));
+      return chat ?? null;
+    },
+
+    async updateChat(chatId, change) {
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const [current, version] = await kv.mget<[Chat | null, number | null]>(chatKey(chatId), versionKey(chatId));
+        const updated = change(current ?? null);
+        if (!updated) return current ?? null;
+
+        const saved = await kv.eval(
+          SAVE_IF_UNCHANGED,
+          [chatKey(chatId), versionKey(chatId), summaryKey(chatId), 'chats'],
+          [String(version ?? 0), JSON.stringify(updated), JSON.stringify(summarizeChat(updated)), updated.updatedAt, chatId]
+        );
+        if (saved === 1) return updated;
+      }
+      throw new Error(`Chat ${chatId} kept changing while it was being updated`);
+    },
+
+    async deleteChat(chatId) {
+      await kv.del(chatKey(chatId), versionKey(chatId), summaryKey(chatId));
+      await kv.zrem('chats', chatId);
+    },
+
+    async listChats() {
+      const ids = await kv.zrange<string[]>('chats', 0, -1, { rev: true });
+      if (ids.length === 0) return [];
+      const summaries = await kv.mget<(ChatSummary | null)[]>(...ids.map(summaryKey));
+
+      // Chats saved before summaries were kept get one on first listing;
+      // NX keeps a summary written by an update in the meantime
+      return Promise.all(ids.map(async (chatId, i) => {
+        if (summaries[i]) return summaries[i];
+        const chat = await kv.get<Chat>(chatKey(chatId));
+        if (!chat) return null;
+        const summary = summarizeChat(chat);
+        await kv.set(summaryKey(chatId), summary, { nx: true });
+        return summary;
+      })).then(entries => entries.filter((summary): summary is ChatSummary => summary !== null));
+    },
+  };
+}
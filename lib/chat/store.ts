@@ -0,0 +1,20 @@
+import type { Chat, ChatSummary } from '@/lib/types';
+
+/**
+ * Storage backend for chat conversations. Implementations only need to
+ * load and change whole chats; message-level helpers live in `lib/chat`.
+ */
+export interface ChatStore {
+  getChat(chatId: string): Promise<Chat | null>;
+  /**
+   * Applies `change` to the stored chat (null if there is none yet) and
+   * saves what it returns, without losing writes made to the same chat in
+   * the meantime. `change` may run more than once, so it must only derive
+   * the new chat from the one it is given; it returns null to leave the
+   * chat as it is. Resolves to the chat as stored afterwards.
+   */
+  updateChat(chatId: string, change: (chat: Chat | null) => Chat | null): Promise<Chat | null>;
+  deleteChat(chatId: string): Promise<void>;
+  // Sidebar entries (see summarizeChat), most recently updated first
+  listChats(): Promise<ChatSummary[]>;
+}
@@ -0,0 +1,19 @@
+import type { Chat, ChatSummary } from '@/lib/types';
+import { getActivePath } from './tree';
+
+/**
+ * The sidebar entry for a chat. Stores save it next to the chat on every
+ * write, so listing chats never has to load their messages.
+ */
+export function summarizeChat(chat: Chat): ChatSummary {
+  const path = getActivePath(chat.messages, chat.activeLeafId);
+  const last = path[path.length - 1];
+  return {
+    id: chat.id,
+    title: chat.title || 'New Chat',
+    preview: last ? last.content || last.experimental_attachments?.[0]?.name || '' : '',
+    updatedAt: chat.updatedAt,
+  };
+}
+
+export const byMostRecent = (a: ChatSummary, b: ChatSummary) => b.updatedAt - a.updatedAt;
@@ -0,0 +1,76 @@
+import type { Message } from '@/lib/types';
+
+// A chat's messages form a tree: editing a prompt or regenerating a reply
+// adds a sibling next to the original, and the conversation shown (and sent
+// as context) is the path from the root to the active leaf. Messages are
+// stored as a flat list; ones saved before branching existed have no
+// `parentId` and simply follow the message before them.
+
+/**
+ * Parent of the message at `index`. `null` marks a root; a missing
+ * `parentId` means the previous message in the list.
+ */
+export function getParentId(messages: Message[], index: number): string | null {
+  const parentId = messages[index].parentId;
+  if (parentId !== undefined) return parentId;
+  return index > 0 ? messages[index - 1].id : null;
+}
+
+// Children of each message, keyed by parent id ('' for roots), in list order
+function getChildren(messages: Message[]): Map<string, Message[]> {
+  const children = new Map<string, Message[]>();
+  messages.forEach((message, index) => {
+    const key = getParentId(messages, index) ?? '';
+    children.set(key, [...(children.get(key) || []), message]);
+  });
+  return children;
+}
+
+/**
+ * The conversation ending at `leafId`, oldest first. Falls back to the
+ * last message in the list when no leaf is given or it no longer exists.
+ */
+export function getActivePath(messages: Message[], leafId?: string | null): Message[] {
+  const indexById = new Map(messages.map((m, i) => [m.id, i]));
+  let index = leafId != null && indexById.has(leafId) ? indexById.get(leafId)! : messages.length - 1;
+
+  const path: Message[] = [];
+  const seen = new Set<string>();
+  while (index !== undefined && index >= 0 && !seen.has(messages[index].id)) {
+    seen.add(messages[index].id);
+    path.push(messages[index]);
+    const parentId = getParentId(messages, index);
+    index = parentId === null ? -1 : indexById.get(parentId)!;
+  }
+
+  return path.reverse();
+}
+
+/**
+ * The alternatives at a message's position in the tree, including the
+ * message itself, in the order they were created.
+ */
+export function getSiblings(messages: Message[], messageId: string): Message[] {
+  const index = messages.findIndex(m => m.id === messageId);
+  if (index === -1) return [];
+  return getChildren(messages).get(getParentId(messages, index) ?? '') || [];
+}
+
+/**
+ * The leaf reached from `messageId` by following the newest child at each
+ * step, which is where switching to that branch lands.
+ */
+export function findLatestLeaf(messages: Message[], messageId: string): string {
+  const children = getChildren(messages);
+  const seen = new Set<string>();
+  let current = messageId;
+
+  while (!seen.has(current)) {
+    seen.add(current);
+    const next = children.get(current);
+    if (!next?.length) break;
+    current = next[next.length - 1].id;
+  }
+
+  return current;
+}
@@ -0,0 +1,146 @@
+import { MODES } from '@/lib/modes';
+import { TOOLS } from '@/lib/tools/config';
+import type { ToolParams } from '@/lib/tools';
+
+// Slash commands typed at the start of a message, e.g. `/safe /image a cat`.
+// The composer and the chat route share this parser, so a typed command
+// ends up as the same `activeMode`/`activeTool`/`toolParams` as picking it
+// from the menu.
+
+export type SlashCommand = {
+  name: string;
+  kind: 'mode' | 'tool' | 'action';
+  description: string;
+  // Arguments, shown while they are being typed
+  hint?: string;
+};
+
+// Commands handled by the composer itself rather than sent
+export type CommandAction = 'new' | 'export';
+
+const ACTIONS: (SlashCommand & { name: CommandAction })[] = [
+  { name: 'new', kind: 'action', description: 'Start a new chat' },
+  { name: 'export', kind: 'action', description: 'Download this conversation as Markdown' },
+];
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  ...MODES.map(mode => ({
+    name: mode.id,
+    kind: 'mode' as const,
+    description: `Switch to ${mode.label} Mode`,
+  })),
+  ...TOOLS.map(tool => ({
+    name: tool.id,
+    kind: 'tool' as const,
+    description: tool.label,
+    hint: [
+      ...tool.parameters.map(parameter => `[${parameter.id}=${
+        parameter.type === 'select' ? parameter.options.map(option => option.value).join('|') : parameter.type
+      }]`),
+      '<prompt>',
+    ].join(' '),
+  })),
+  ...ACTIONS,
+];
+
+export type ParsedInput = {
+  mode?: string;
+  tool?: string;
+  // `name=value` arguments given after a tool command
+  toolParams?: ToolParams;
+  action?: CommandAction;
+  // The message without its commands
+  text: string;
+};
+
+export type ParseInputResult =
+  | { ok: true; input: ParsedInput }
+  | { ok: false; error: string };
+
+const findCommand = (name: string) => SLASH_COMMANDS.find(command => command.name === name.toLowerCase());
+
+/**
+ * Splits leading slash commands off a message. Text that doesn't start
+ * with a slash comes back unchanged, and a doubled slash sends text that
+ * starts with one.
+ */
+export function parseSlashCommands(input: string): ParseInputResult {
+  let rest = input.trimStart();
+  if (!rest.startsWith('/')) return { ok: true, input: { text: input } };
+  if (rest.startsWith('//')) return { ok: true, input: { text: rest.slice(1) } };
+
+  const parsed: ParsedInput = { text: '' };
+  while (rest.startsWith('/')) {
+    const [token, name] = rest.match(/^\/(\S*)\s*/)!;
+    const command = findCommand(name);
+    rest = rest.slice(token.length);
+
+    if (!command) {
+      return {
+        ok: false,
+        error: `Unknown command /${name}. Try ${SLASH_COMMANDS.map(c => `/${c.name}`).join(', ')}, ` +
+          'or start with // to send a message that begins with a slash.',
+      };
+    }
+    if (parsed[command.kind]) {
+      return { ok: false, error: `Only one ${command.kind} command can be used at a time.` };
+    }
+
+    if (command.kind === 'mode') {
+      parsed.mode = command.name;
+    } else if (command.kind === 'action') {
+      parsed.action = command.name as CommandAction;
+    } else {
+      parsed.tool = command.name;
+
+      // Leading `name=value` pairs set the tool's parameters
+      const parameters = TOOLS.find(tool => tool.id === command.name)!.parameters;
+      for (;;) {
+        const argument = rest.match(/^(\w+)=(\S+)\s*/);
+        if (!argument || !parameters.some(parameter => parameter.id === argument[1])) break;
+        parsed.toolParams = { ...parsed.toolParams, [argument[1]]: argument[2] };
+        rest = rest.slice(argument[0].length);
+      }
+    }
+  }
+
+  return { ok: true, input: { ...parsed, text: rest } };
+}
+
+/**
+ * Protects text that should be sent as it is, such as a stored message
+ * being regenerated, from being read as commands.
+ */
+export function escapeSlashCommands(text: string): string {
+  const trimmed = text.trimStart();
+  return trimmed.startsWith('/') ? `/${trimmed}` : text;
+}
+
+export type CommandCompletion = {
+  // The partial command being typed, without its slash
+  query: string | null;
+  suggestions: SlashCommand[];
+  // The last complete command, whose arguments may be typed next
+  current: SlashCommand | null;
+};
+
+// What the composer's autocomplete shows for the input so far
+export function getCommandCompletion(input: string): CommandCompletion {
+  let rest = input.trimStart();
+  let current: SlashCommand | null = null;
+  if (rest.startsWith('//')) return { query: null, suggestions: [], current };
+
+  while (rest.startsWith('/')) {
+    const [token, name, space] = rest.match(/^\/(\S*)(\s*)/)!;
+    if (!space) {
+      const query = name.toLowerCase();
+      return { query, suggestions: SLASH_COMMANDS.filter(c => c.name.startsWith(query)), current };
+    }
+
+    current = findCommand(name) || null;
+    if (!current) break;
+    rest = rest.slice(token.length);
+  }
+
+  return { query: null, suggestions: [], current };
+}
@@ -0,0 +1,208 @@
+import { generateText } from 'ai';
+import { getActivePath, getChat, updateChat } from '@/lib/chat';
+import { getDefaultModel, getLanguageModel, getModel, type ModelConfig } from '@/lib/models';
+import type { ContextSummary, Message } from '@/lib/types';
+
+// A message as it is handed to n8n or the model
+export type ContextMessage = Pick<Message, 'role' | 'content' | 'experimental_attachments'>;
+
+export type ChatContext = {
+  // Recent turns, oldest first, ending with the latest user message
+  messages: ContextMessage[];
+  // Summary of the turns that fell outside the window, if any
+  summary?: ContextSummary;
+};
+
+export type ContextOptions = {
+  maxTurns: number;
+  tokenBudget: number;
+  summarize: boolean;
+  // The chat's model, which writes summaries unless `CHAT_SUMMARY_MODEL` names another
+  model: ModelConfig;
+};
+
+/**
+ * Reads the context window settings. A turn is one user message plus the
+ * replies that follow it; the window stops at whichever of `maxTurns` and
+ * `tokenBudget` is reached first. Requests pass the chat's model in place of the default.
+ */
+export function getContextOptions(): ContextOptions {
+  return {
+    maxTurns: Number(process.env.CHAT_CONTEXT_MAX_TURNS) || 10,
+    tokenBudget: Number(process.env.CHAT_CONTEXT_TOKEN_BUDGET) || 8000,
+    summarize: process.env.CHAT_CONTEXT_SUMMARIZE !== 'false',
+    model: getDefaultModel(),
+  };
+}
+
+// Rough token estimate, about four characters per token for English text
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * A message's text with the transcripts of its voice notes appended, so
+ * text-only models and workflows know what was said.
+ */
+export function contentWithTranscripts(message: Pick<Message, 'content' | 'experimental_attachments'>): string {
+  const notes = (message.experimental_attachments || [])
+    .filter(a => a.transcript)
+    .map(a => `[Voice note "${a.name}": ${a.transcript}]`);
+  return [message.content, ...notes].filter(Boolean).join('\n\n');
+}
+
+function toContextMessage(message: Message): ContextMessage {
+  return {
+    role: message.role,
+    content: contentWithTranscripts(message),
+    ...(message.experimental_attachments?.length && {
+      experimental_attachments: message.experimental_attachments,
+    }),
+  };
+}
+
+/**
+ * Splits history into the recent window and the older turns that did not
+ * fit. The latest message is always kept, even if it alone exceeds the budget.
+ */
+export function selectContextWindow(history: Message[], options: ContextOptions) {
+  // Placeholders, failures and blocked turns carry no conversational content
+  const usable = history.filter(m => m.status !== 'pending' && m.status !== 'failed' && m.status !== 'cancelled' && m.status !== 'blocked');
+
+  let start = usable.length;
+  let tokens = 0;
+  let turns = 0;
+
+  for (let i = usable.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(usable[i].content);
+    if (start < usable.length && tokens + cost > options.tokenBudget) break;
+    if (usable[i].role === 'user') {
+      if (turns === options.maxTurns) break;
+      turns++;
+    }
+    tokens += cost;
+    start = i;
+  }
+
+  return { recent: usable.slice(start), older: usable.slice(0, start) };
+}
+
+// Fallback used when no summarization model is available
+function truncateTranscript(transcript: string, tokenBudget: number): string {
+  const maxChars = Math.max(200, tokenBudget);
+  return transcript.length > maxChars ? `...${transcript.slice(-maxChars)}` : transcript;
+}
+
+// `CHAT_SUMMARY_MODEL` when it names a registry entry, otherwise the chat's model
+function getSummaryModel(chatModel: ModelConfig): ModelConfig {
+  return getModel(process.env.CHAT_SUMMARY_MODEL || chatModel.id) || chatModel;
+}
+
+// OpenAI needs a key; OpenAI-compatible servers such as Ollama may not
+function hasCredentials(config: ModelConfig): boolean {
+  if (config.provider !== 'openai') return true;
+  return Boolean((config.apiKeyEnv && process.env[config.apiKeyEnv]) || process.env.OPENAI_API_KEY);
+}
+
+async function summarizeMessages(
+  messages: Message[],
+  previous: ContextSummary | undefined,
+  { tokenBudget, model }: ContextOptions
+): Promise<string> {
+  const transcript = messages
+    .map(m => `${m.role}: ${m.content || m.experimental_attachments?.map(a => `[${a.name}]`).join(' ') || ''}`)
+    .join('\n');
+  const input = previous ? `Earlier summary: ${previous.text}\n\n${transcript}` : transcript;
+
+  const summaryModel = getSummaryModel(model);
+  if (!hasCredentials(summaryModel)) {
+    return truncateTranscript(input, tokenBudget);
+  }
+
+  try {
+    const { text } = await generateText({
+      model: getLanguageModel(summaryModel),
+      system:
+        'Summarize this conversation for an assistant that will continue it. Keep names, facts, decisions and open questions. Reply with the summary only.',
+      prompt: input,
+      maxTokens: Math.min(500, Math.floor(tokenBudget / 4)),
+    });
+    return text.trim();
+  } catch (error) {
+    console.error('Failed to summarize chat history:', error);
+    return truncateTranscript(input, tokenBudget);
+  }
+}
+
+/**
+ * Builds the context window for a conversation. Older turns are folded into
+ * a summary; `cached` lets a previously computed summary be extended with
+ * only the turns that have since fallen out of the window.
+ */
+export async function buildChatContext(
+  history: Message[],
+  options: ContextOptions = getContextOptions(),
+  cached?: ContextSummary
+): Promise<ChatContext> {
+  const { recent, older } = selectContextWindow(history, options);
+  const messages = recent.map(toContextMessage);
+
+  if (older.length === 0 || !options.summarize) {
+    return { messages };
+  }
+
+  // A summary only carries over if it covers a prefix of this branch
+  const covers = (summary: ContextSummary) =>
+    summary.messageCount <= older.length &&
+    (!summary.throughId || older[summary.messageCount - 1]?.id === summary.throughId);
+
+  if (cached && cached.messageCount === older.length && covers(cached)) {
+    return { messages, summary: cached };
+  }
+
+  const reusable = cached && cached.messageCount < older.length && covers(cached) ? cached : undefined;
+  const pending = older.slice(reusable?.messageCount ?? 0);
+  const text = await summarizeMessages(pending, reusable, options);
+
+  return {
+    messages,
+    summary: { text, messageCount: older.length, throughId: older[older.length - 1].id },
+  };
+}
+
+/**
+ * Assembles the context for a chat request. The active branch of the
+ * persisted history is preferred; the messages sent by the client are used
+ * when the chat is not stored.
+ * A newly computed summary is saved back on the chat for the next request.
+ */
+export async function loadChatContext(
+  chatId: string | undefined,
+  clientMessages: Message[],
+  options: ContextOptions = getContextOptions()
+): Promise<ChatContext> {
+  let history = clientMessages;
+  let cached: ContextSummary | undefined;
+
+  if (chatId) {
+    try {
+      const chat = await getChat(chatId);
+      if (chat && chat.messages.length > 0) {
+        history = getActivePath(chat.messages, chat.activeLeafId);
+        cached = chat.contextSummary;
+      }
+    } catch (error) {
+      console.error('Failed to load chat history, using client messages:', error);
+    }
+  }
+
+  const context = await buildChatContext(history, options, cached);
+
+  if (chatId && context.summary && context.summary !== cached) {
+    await updateChat(chatId, { contextSummary: context.summary }).catch(error => {
+      console.error('Failed to cache context summary:', error);
+    });
+  }
+
+  return context;
+}
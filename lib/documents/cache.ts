@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { kv } from '@vercel/kv';
+import type { ExtractedDocument } from './types';
+
+/**
+ * Extracted documents keyed by a hash of the file contents, so the same
+ * file is only parsed once however often it is sent.
+ */
+export interface DocumentCache {
+  get(key: string): Promise<ExtractedDocument | null>;
+  set(key: string, document: ExtractedDocument): Promise<void>;
+}
+
+const CACHE_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+function createKVDocumentCache(): DocumentCache {
+  return {
+    async get(key) {
+      return (await kv.get<ExtractedDocument>(`document:${key}`)) ?? null;
+    },
+
+    async set(key, document) {
+      await kv.set(`document:${key}`, document, { ex: CACHE_TTL_SECONDS });
+    },
+  };
+}
+
+function createMemoryDocumentCache(): DocumentCache {
+  const documents = new Map<string, ExtractedDocument>();
+
+  return {
+    async get(key) {
+      return documents.get(key) ?? null;
+    },
+
+    async set(key, document) {
+      documents.set(key, document);
+    },
+  };
+}
+
+function createFileDocumentCache(dir: string): DocumentCache {
+  const documentPath = (key: string) => path.join(dir, `${encodeURIComponent(key)}.json`);
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await fs.readFile(documentPath(key), 'utf8')) as ExtractedDocument;
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async set(key, document) {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(documentPath(key), JSON.stringify(document), 'utf8');
+    },
+  };
+}
+
+let cache: DocumentCache | null = null;
+
+// Uses the same backend selection as the chat store
+export function getDocumentCache(): DocumentCache {
+  if (!cache) {
+    const driver = process.env.CHAT_STORE || (process.env.KV_REST_API_URL ? 'kv' : 'file');
+
+    if (driver === 'kv') {
+      cache = createKVDocumentCache();
+    } else if (driver === 'memory') {
+      cache = createMemoryDocumentCache();
+    } else {
+      cache = createFileDocumentCache(process.env.DOCUMENT_CACHE_DIR || '.data/documents');
+    }
+  }
+  return cache;
+}
@@ -0,0 +1,56 @@
+import type { DocumentExtractor } from './types';
+
+/**
+ * Splits CSV into rows of cells, following RFC 4180 quoting: quoted
+ * cells may hold commas, line breaks and doubled quotes.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) rows.push([...row, cell]);
+  return rows.filter(cells => cells.some(value => value.trim()));
+}
+
+export function createCsvExtractor(): DocumentExtractor {
+  return {
+    format: 'csv',
+    contentTypes: ['text/csv'],
+
+    async extract(data) {
+      const rows = parseCsv(new TextDecoder().decode(data));
+      return {
+        text: rows.map(cells => cells.map(value => value.replace(/\s+/g, ' ').trim()).join(' | ')).join('\n'),
+        metadata: { tables: 1, rows: rows.length },
+      };
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { strToU8, zipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { createDocxExtractor } from './docx';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`;
+
+const RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const documentXml = (body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`;
+
+function docx(document: string | Uint8Array): Uint8Array {
+  return zipSync({
+    '[Content_Types].xml': strToU8(CONTENT_TYPES),
+    '_rels/.rels': strToU8(RELS),
+    'word/document.xml': typeof document === 'string' ? strToU8(document) : document,
+  });
+}
+
+describe('createDocxExtractor', () => {
+  it('extracts paragraph text', async () => {
+    const data = docx(documentXml('<w:p><w:r><w:t>Quarterly report</w:t></w:r></w:p>'));
+    const { text } = await createDocxExtractor().extract(data);
+    expect(text).toContain('Quarterly report');
+  });
+
+  it('refuses a document with an entry that inflates past the limit', async () => {
+    // Compresses to a few kilobytes
+    const bomb = docx(new Uint8Array(25 * 1024 * 1024).fill(0x20));
+    expect(bomb.length).toBeLessThan(100 * 1024);
+    await expect(createDocxExtractor().extract(bomb)).rejects.toThrow(/too large/);
+  });
+});
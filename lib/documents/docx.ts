@@ -0,0 +1,22 @@
+import { zipSync } from 'fflate';
+import mammoth from 'mammoth';
+import { htmlToText } from './html';
+import type { DocumentExtractor } from './types';
+import { unzipWithinLimits } from './zip';
+
+// Word documents are converted to HTML first, so tables and lists are
+// flattened the same way as in HTML files. mammoth unzips without limits,
+// so it is given a copy unpacked within them and stored uncompressed.
+export function createDocxExtractor(): DocumentExtractor {
+  return {
+    format: 'docx',
+    contentTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+
+    async extract(data) {
+      const unpacked = zipSync(unzipWithinLimits(data), { level: 0 });
+      const { value } = await mammoth.convertToHtml({ buffer: Buffer.from(unpacked) });
+      const { text, tables, rows } = htmlToText(value);
+      return { text, metadata: tables > 0 ? { tables, rows } : {} };
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import type { DocumentExtractor } from './types';
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Text of an HTML fragment on a single line
+const inlineText = (html: string) =>
+  decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+/**
+ * Plain text of an HTML document. Scripts, styles and comments are
+ * dropped, block elements start new lines, list items get a dash, and
+ * each table row becomes one line of ` | `-separated cells.
+ */
+export function htmlToText(html: string): { text: string; tables: number; rows: number } {
+  let tables = 0;
+  let rows = 0;
+
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<table\b[\s\S]*?<\/table>/gi, table => {
+      tables++;
+      const lines = (table.match(/<tr\b[\s\S]*?<\/tr>/gi) || []).map(row => {
+        rows++;
+        return (row.match(/<t[dh]\b[\s\S]*?<\/t[dh]>/gi) || []).map(inlineText).join(' | ');
+      });
+      return `\n\n${lines.join('\n')}\n\n`;
+    })
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|header|footer|main|aside|nav|h[1-6]|ul|ol|blockquote|pre|hr|dl|dt|dd|figure|figcaption)\b[^>]*>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '');
+
+  return { text: decodeEntities(text).replace(/[ \t]+/g, ' '), tables, rows };
+}
+
+export function createHtmlExtractor(): DocumentExtractor {
+  return {
+    format: 'html',
+    contentTypes: ['text/html'],
+
+    async extract(data) {
+      const { text, tables, rows } = htmlToText(new TextDecoder().decode(data));
+      return { text, metadata: tables > 0 ? { tables, rows } : {} };
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import { createHash } from 'crypto';
+import { getStorageProvider, type UploadContext, type UploadFile } from '@/lib/storage';
+import type { Attachment } from '@/lib/types';
+import type { DocumentAttachment, DocumentExtractor, ExtractedDocument } from './types';
+import { getDocumentCache } from './cache';
+import { createPdfExtractor } from './pdf';
+import { createDocxExtractor } from './docx';
+import { createXlsxExtractor } from './xlsx';
+import { createCsvExtractor } from './csv';
+import { createHtmlExtractor } from './html';
+import { createJsonExtractor, createPlainTextExtractor } from './plain';
+
+export type { DocumentAttachment, DocumentMetadata, ExtractedDocument } from './types';
+
+const extractors: DocumentExtractor[] = [
+  createPdfExtractor(),
+  createDocxExtractor(),
+  createXlsxExtractor(),
+  createCsvExtractor(),
+  createHtmlExtractor(),
+  createJsonExtractor(),
+  createPlainTextExtractor(),
+];
+
+// Bumped when extraction output changes, so cached results are not reused
+const EXTRACTION_VERSION = 1;
+
+const getMaxCharacters = () => Number(process.env.DOCUMENT_MAX_CHARS) || 50000;
+
+const findExtractor = (contentType: string | undefined) =>
+  extractors.find(extractor => extractor.contentTypes.includes(contentType || ''));
+
+export const isExtractable = (contentType: string | undefined) => Boolean(findExtractor(contentType));
+
+// Unix line breaks, no trailing spaces, at most one blank line in a row
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Cuts text to `limit` characters, at the last line break in the final
+ * tenth when there is one, and says how much was left out.
+ */
+function truncateText(text: string, limit: number): string {
+  const lineEnd = text.lastIndexOf('\n', limit);
+  const end = lineEnd > limit * 0.9 ? lineEnd : limit;
+  return `${text.slice(0, end)}\n\n[Truncated: showing ${end} of ${text.length} characters]`;
+}
+
+/**
+ * Extracts normalized text and structure from a document, or returns
+ * null for types no extractor reads. Results are cached by a hash of the
+ * contents. Text over `DOCUMENT_MAX_CHARS` (50,000 by default) is cut
+ * and the document marked truncated. Parse errors are thrown.
+ */
+export async function extractDocument(file: UploadFile): Promise<ExtractedDocument | null> {
+  const extractor = findExtractor(file.contentType);
+  if (!extractor) return null;
+
+  const limit = getMaxCharacters();
+  const hash = createHash('sha256').update(file.data).digest('hex');
+  const key = `${extractor.format}-${hash}-${limit}-v${EXTRACTION_VERSION}`;
+
+  const cached = await getDocumentCache().get(key).catch(error => {
+    console.error('Failed to read the document cache:', error);
+    return null;
+  });
+  if (cached) return cached;
+
+  const { text, metadata } = await extractor.extract(file.data);
+  const normalized = normalizeText(text);
+  const truncated = normalized.length > limit;
+  const document: ExtractedDocument = {
+    format: extractor.format,
+    text: truncated ? truncateText(normalized, limit) : normalized,
+    metadata,
+    characters: normalized.length,
+    truncated,
+  };
+
+  await getDocumentCache().set(key, document).catch(error => {
+    console.error('Failed to cache extracted document:', error);
+  });
+  return document;
+}
+
+/**
+ * Adds the extracted text to document attachments. Files are read back
+ * through the storage provider, so only files uploaded here are read;
+ * anything that can't be read or parsed is left as it was.
+ */
+export async function extractAttachments(
+  attachments: Attachment[],
+  context: UploadContext
+): Promise<DocumentAttachment[]> {
+  return Promise.all(attachments.map(async attachment => {
+    if (!isExtractable(attachment.contentType)) return attachment;
+
+    try {
+      const file = await getStorageProvider().read(attachment.url, context);
+      const document = file && await extractDocument(file);
+      return document ? { ...attachment, document } : attachment;
+    } catch (error) {
+      console.error(`Failed to extract text from ${attachment.name}:`, error);
+      return attachment;
+    }
+  }));
+}
@@ -0,0 +1,23 @@
+import { extractText } from 'unpdf';
+import type { DocumentExtractor } from './types';
+
+/**
+ * Text of a PDF, page by page. Each page starts with a `[Page N]` line so
+ * passages can be traced back to where they came from. Scanned pages
+ * without a text layer come out empty.
+ */
+export function createPdfExtractor(): DocumentExtractor {
+  return {
+    format: 'pdf',
+    contentTypes: ['application/pdf'],
+
+    async extract(data) {
+      // pdf.js takes ownership of the buffer it is given
+      const { totalPages, text } = await extractText(data.slice(), { mergePages: false });
+      return {
+        text: text.map((page, index) => `[Page ${index + 1}]\n${page.trim()}`).join('\n\n'),
+        metadata: { pages: totalPages },
+      };
+    },
+  };
+}
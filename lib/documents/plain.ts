@@ -0,0 +1,31 @@
+import type { DocumentExtractor } from './types';
+
+// Plain text and XML are passed through as they are
+export function createPlainTextExtractor(): DocumentExtractor {
+  return {
+    format: 'text',
+    contentTypes: ['text/plain', 'text/markdown', 'application/xml'],
+
+    async extract(data) {
+      return { text: new TextDecoder().decode(data), metadata: {} };
+    },
+  };
+}
+
+// JSON is re-indented so the structure survives line-based truncation;
+// files that don't parse are kept as text
+export function createJsonExtractor(): DocumentExtractor {
+  return {
+    format: 'json',
+    contentTypes: ['application/json'],
+
+    async extract(data) {
+      const text = new TextDecoder().decode(data);
+      try {
+        return { text: JSON.stringify(JSON.parse(text), null, 2), metadata: {} };
+      } catch {
+        return { text, metadata: {} };
+      }
+    },
+  };
+}
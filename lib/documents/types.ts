@@ -0,0 +1,38 @@
+import type { Attachment } from '@/lib/types';
+
+// What an extractor learned about a document's structure
+export type DocumentMetadata = {
+  pages?: number;
+  // Sheet names of a spreadsheet, in workbook order
+  sheets?: string[];
+  tables?: number;
+  // Table rows across the whole document
+  rows?: number;
+};
+
+/**
+ * A document's text, normalized to plain lines with tables as
+ * ` | `-separated rows. Text past the size limit is cut off and the
+ * document marked `truncated`; `characters` is the full length.
+ */
+export type ExtractedDocument = {
+  // Extractor that read the file, e.g. `pdf`
+  format: string;
+  text: string;
+  metadata: DocumentMetadata;
+  characters: number;
+  truncated: boolean;
+};
+
+// An attachment with the text read from it, as sent to n8n
+export type DocumentAttachment = Attachment & { document?: ExtractedDocument };
+
+/**
+ * Reads one family of document formats. `extract` returns the full,
+ * untruncated text; limits are applied by the caller.
+ */
+export interface DocumentExtractor {
+  format: string;
+  contentTypes: string[];
+  extract(data: Uint8Array): Promise<{ text: string; metadata: DocumentMetadata }>;
+}
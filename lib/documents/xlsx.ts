@@ -0,0 +1,78 @@
+import { strFromU8 } from 'fflate';
+import { decodeEntities } from './html';
+import type { DocumentExtractor } from './types';
+import { unzipWithinLimits } from './zip';
+
+// Every <tag>...</tag> element in an XML string
+const elements = (xml: string, tag: string) =>
+  xml.match(new RegExp(`<${tag}\\b[^>]*?(?:/>|>[\\s\\S]*?</${tag}>)`, 'g')) || [];
+
+const attribute = (element: string, name: string) =>
+  element.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+// Text runs of a shared or inline string, which may be split for formatting
+const stringText = (xml: string) =>
+  decodeEntities(elements(xml, 't').map(t => t.replace(/<[^>]*>/g, '')).join(''));
+
+// Zero-based column of a cell reference such as `AB12`
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/)?.[0] || 'A';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function cellValue(cell: string, sharedStrings: string[]): string {
+  const type = attribute(cell, 't');
+  if (type === 'inlineStr') return stringText(cell);
+
+  const value = decodeEntities(cell.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '');
+  if (type === 's') return sharedStrings[Number(value)] ?? '';
+  if (type === 'b') return value === '1' ? 'TRUE' : 'FALSE';
+  return value;
+}
+
+/**
+ * Cell values of every sheet in an Excel workbook, as a `## Sheet` heading
+ * followed by one ` | `-separated line per row. Formulas give their last
+ * calculated value; dates come out as Excel serial numbers.
+ */
+export function createXlsxExtractor(): DocumentExtractor {
+  return {
+    format: 'xlsx',
+    contentTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+
+    async extract(data) {
+      const files = unzipWithinLimits(data, file =>
+        file.name.startsWith('xl/') && (file.name.endsWith('.xml') || file.name.endsWith('.rels')));
+      const read = (name: string) => (files[name] ? strFromU8(files[name]) : '');
+
+      const sharedStrings = elements(read('xl/sharedStrings.xml'), 'si').map(stringText);
+      const targets = new Map(elements(read('xl/_rels/workbook.xml.rels'), 'Relationship')
+        .map(rel => [attribute(rel, 'Id'), attribute(rel, 'Target')?.replace(/^\/?(xl\/)?/, '')]));
+
+      const sheets: string[] = [];
+      let rowCount = 0;
+      const sections = elements(read('xl/workbook.xml'), 'sheet').map(sheet => {
+        const name = decodeEntities(attribute(sheet, 'name') || `Sheet${sheets.length + 1}`);
+        sheets.push(name);
+
+        const lines = elements(read(`xl/${targets.get(attribute(sheet, 'r:id')) || ''}`), 'row').flatMap(row => {
+          const cells: string[] = [];
+          elements(row, 'c').forEach((cell, position) => {
+            const reference = attribute(cell, 'r');
+            cells[reference ? columnIndex(reference) : position] = cellValue(cell, sharedStrings).replace(/\s+/g, ' ').trim();
+          });
+          if (!cells.some(Boolean)) return [];
+          rowCount++;
+          return [Array.from(cells, value => value ?? '').join(' | ')];
+        });
+
+        return `## ${name}\n${lines.join('\n')}`;
+      });
+
+      return {
+        text: sections.join('\n\n'),
+        metadata: { sheets, tables: sheets.length, rows: rowCount },
+      };
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import { unzipSync, type UnzipFileInfo, type Unzipped } from 'fflate';
+
+// Limits on inflated contents, so a small zip bomb can't exhaust memory
+const MAX_ENTRY_BYTES = 20 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Unzips the entries `filter` selects, throwing once an entry or their
+ * total passes the size limits. The limits are checked against the sizes
+ * the archive declares, which is safe because fflate inflates each entry
+ * into a buffer of its declared size and never grows it.
+ */
+export function unzipWithinLimits(data: Uint8Array, filter: (file: UnzipFileInfo) => boolean = () => true): Unzipped {
+  let total = 0;
+  return unzipSync(data, {
+    filter: file => {
+      if (!filter(file)) return false;
+      total += file.originalSize;
+      if (file.originalSize > MAX_ENTRY_BYTES || total > MAX_TOTAL_BYTES) {
+        throw new Error(`Archive is too large to read: ${file.name} inflates past the limit`);
+      }
+      return true;
+    },
+  });
+}
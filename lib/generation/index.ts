@@ -0,0 +1,37 @@
+import type { GenerationProvider } from './types';
+import { createOpenAIGenerationProvider } from './openai';
+import { createReplicateGenerationProvider } from './replicate';
+import { createMockGenerationProvider } from './mock';
+
+export type { GenerationOutput, GenerationProvider, GenerationRequest } from './types';
+
+const providers: GenerationProvider[] = [
+  createOpenAIGenerationProvider(),
+  createReplicateGenerationProvider(),
+  createMockGenerationProvider(),
+];
+
+// Whether any provider can run the tool; others, like voice chat, are plain chat
+export const isGenerativeTool = (tool: string | null | undefined) =>
+  Boolean(tool) && providers.some(provider => provider.tools.includes(tool!));
+
+/**
+ * Returns the provider that runs `tool` when n8n is off: the first one
+ * in `GENERATION_PROVIDER` (a comma-separated list, `openai,replicate`
+ * by default) that handles the tool and is configured. Returns null when
+ * none is, so the caller can say which setup is missing. Add `mock` to
+ * the list to fall back to placeholders, or use it alone to work offline.
+ */
+export function getGenerationProvider(tool: string): GenerationProvider | null {
+  const order = (process.env.GENERATION_PROVIDER || 'openai,replicate').split(',').map(name => name.trim());
+
+  for (const name of order) {
+    const provider = providers.find(p => p.name === name);
+    if (provider?.tools.includes(tool) && provider.isConfigured()) return provider;
+  }
+  return null;
+}
+
+// The providers that could run `tool`, for error messages
+export const listGenerationProviders = (tool: string) =>
+  providers.filter(provider => provider.tools.includes(tool) && provider.name !== 'mock').map(provider => provider.name);
@@ -0,0 +1,58 @@
+import { createHash } from 'crypto';
+import { placeholderWav } from '@/lib/speech/local';
+import { getStorageProvider } from '@/lib/storage';
+import type { ToolParams } from '@/lib/tools';
+import type { GenerationProvider } from './types';
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+
+// A labelled gradient card in the requested aspect ratio. The colors come
+// from the prompt and seed, so the same request always gives the same file.
+function placeholderSvg(tool: string, prompt: string, params: ToolParams): Uint8Array {
+  const digest = createHash('sha256').update(`${tool}\n${prompt}\n${params.seed ?? ''}`).digest();
+  const [w, h] = String(params.aspectRatio || '1:1').split(':').map(Number);
+  const width = 512;
+  const height = Math.round((width * h) / w) || width;
+  const hue = (digest[0] * 360) / 256;
+  const label = prompt.length > 48 ? `${prompt.slice(0, 45)}...` : prompt;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs><linearGradient id="g" x2="1" y2="1">
+    <stop offset="0" stop-color="hsl(${hue.toFixed(0)},70%,55%)"/>
+    <stop offset="1" stop-color="hsl(${((hue + 120) % 360).toFixed(0)},70%,35%)"/>
+  </linearGradient></defs>
+  <rect width="100%" height="100%" fill="url(#g)"/>
+  <text x="50%" y="45%" text-anchor="middle" font-family="sans-serif" font-size="22" fill="#fff">${escapeXml(label)}</text>
+  <text x="50%" y="58%" text-anchor="middle" font-family="sans-serif" font-size="14" fill="#fff" opacity="0.8">mock ${tool}</text>
+</svg>`;
+  return new TextEncoder().encode(svg);
+}
+
+/**
+ * Offline stand-in for every generative tool, selected with
+ * `GENERATION_PROVIDER=mock`. Images are placeholder SVGs and audio is
+ * the placeholder tone used for offline speech. Videos run as `mock`
+ * jobs that finish after `MOCK_JOB_SECONDS` with a still SVG, so the job
+ * flow can be tried without any provider.
+ */
+export function createMockGenerationProvider(): GenerationProvider {
+  return {
+    name: 'mock',
+    tools: ['image', 'audio', 'video'],
+    isConfigured: () => true,
+
+    async generate({ tool, prompt, params, context }) {
+      const file = tool === 'audio'
+        ? { name: 'audio.wav', contentType: 'audio/wav', data: placeholderWav(prompt) }
+        : { name: `${tool}.svg`, contentType: 'image/svg+xml', data: placeholderSvg(tool, prompt, params) };
+
+      const attachment = await getStorageProvider().put(file, context);
+
+      if (tool === 'video') {
+        return { kind: 'job', handle: { provider: 'mock', providerRef: attachment.url } };
+      }
+      return { kind: 'result', experimental_attachments: [attachment] };
+    },
+  };
+}
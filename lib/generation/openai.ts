@@ -0,0 +1,56 @@
+import { openai } from '@ai-sdk/openai';
+import { experimental_generateImage as generateImage } from 'ai';
+import { createOpenAISpeechProvider } from '@/lib/speech/openai';
+import { getStorageProvider } from '@/lib/storage';
+import type { GenerationProvider } from './types';
+
+// Sizes DALL·E 3 accepts, by the aspect ratios the image tool offers
+const IMAGE_SIZES: Record<string, `${number}x${number}`> = {
+  '1:1': '1024x1024',
+  '16:9': '1792x1024',
+  '4:3': '1792x1024',
+  '9:16': '1024x1792',
+  '3:4': '1024x1792',
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'audio/mpeg': 'mp3',
+};
+
+/**
+ * Images from OpenAI's image models (`IMAGE_MODEL`, `dall-e-3` by
+ * default) and audio from its text-to-speech models, which read the
+ * prompt aloud. OpenAI takes no seed, so that setting is ignored.
+ */
+export function createOpenAIGenerationProvider(): GenerationProvider {
+  return {
+    name: 'openai',
+    tools: ['image', 'audio'],
+    isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+
+    async generate({ tool, prompt, params, context, signal }) {
+      let file: { contentType: string; data: Uint8Array };
+
+      if (tool === 'image') {
+        const { image } = await generateImage({
+          model: openai.image(process.env.IMAGE_MODEL || 'dall-e-3'),
+          prompt: params.style ? `${prompt}, ${params.style} style` : prompt,
+          size: IMAGE_SIZES[String(params.aspectRatio)] || IMAGE_SIZES['1:1'],
+          abortSignal: signal,
+        });
+        file = { contentType: image.mimeType || 'image/png', data: image.uint8Array };
+      } else {
+        file = await createOpenAISpeechProvider().synthesize(prompt);
+      }
+
+      const attachment = await getStorageProvider().put(
+        { name: `${tool}.${EXTENSIONS[file.contentType] || 'bin'}`, ...file },
+        context
+      );
+      return { kind: 'result', experimental_attachments: [attachment] };
+    },
+  };
+}
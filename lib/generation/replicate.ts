@@ -0,0 +1,55 @@
+import type { GenerationProvider } from './types';
+
+const API_URL = 'https://api.replicate.com/v1';
+
+/**
+ * Videos from a Replicate model, run as a job that the `replicate` job
+ * provider follows. `REPLICATE_VIDEO_MODEL` names the model, either as
+ * `owner/name` or pinned to a version as `owner/name:version`. The prompt,
+ * aspect ratio, duration and seed are sent as the model's `prompt`,
+ * `aspect_ratio`, `duration` and `seed` inputs.
+ */
+export function createReplicateGenerationProvider(): GenerationProvider {
+  return {
+    name: 'replicate',
+    tools: ['video'],
+    isConfigured: () => Boolean(process.env.REPLICATE_API_TOKEN),
+
+    async generate({ prompt, params, callbackUrl, signal }) {
+      const model = process.env.REPLICATE_VIDEO_MODEL || 'kwaivgi/kling-v1.6-standard';
+      const [name, version] = model.split(':');
+
+      const response = await fetch(version ? `${API_URL}/predictions` : `${API_URL}/models/${name}/predictions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${process.env.REPLICATE_API_TOKEN}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...(version && { version }),
+          input: {
+            prompt,
+            ...(params.aspectRatio !== undefined && { aspect_ratio: params.aspectRatio }),
+            ...(params.duration !== undefined && { duration: params.duration }),
+            ...(params.seed !== undefined && { seed: params.seed }),
+          },
+          // Without a callback URL the job is followed by polling
+          ...(callbackUrl && { webhook: callbackUrl, webhook_events_filter: ['completed'] }),
+        }),
+        redirect: 'error',
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Replicate prediction failed with status: ${response.status} ${await response.text()}`);
+      }
+
+      const prediction = await response.json();
+      if (typeof prediction.urls?.get !== 'string') {
+        throw new Error('Replicate did not return a prediction URL');
+      }
+
+      return { kind: 'job', handle: { provider: 'replicate', providerRef: prediction.urls.get } };
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import type { JobHandle } from '@/lib/jobs/types';
+import type { UploadContext } from '@/lib/storage';
+import type { ToolParams } from '@/lib/tools';
+import type { Attachment } from '@/lib/types';
+
+// A tool request run without n8n
+export type GenerationRequest = {
+  tool: string;
+  // The user's prompt, without the mode and tool prefixes
+  prompt: string;
+  // Tool settings, already checked against the manifest
+  params: ToolParams;
+  // Where generated files are stored, and their URLs built from
+  context: UploadContext;
+  // Webhook for providers that report back when a job finishes
+  callbackUrl: string | null;
+  signal?: AbortSignal;
+};
+
+// Either the finished files, or a job to follow until they are ready
+export type GenerationOutput =
+  | { kind: 'result'; content?: string; experimental_attachments: Attachment[] }
+  | { kind: 'job'; handle: JobHandle };
+
+/**
+ * Backend that runs tools directly. `tools` lists the tool ids it can
+ * run; `isConfigured` reports whether its credentials are present.
+ */
+export interface GenerationProvider {
+  name: string;
+  tools: string[];
+  isConfigured(): boolean;
+  generate(request: GenerationRequest): Promise<GenerationOutput>;
+}
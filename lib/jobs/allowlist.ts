@@ -0,0 +1,34 @@
+// Outbound job status calls carry provider credentials, so they may only
+// go to known provider hosts over HTTPS.
+
+// Comma-separated host list from an env var, merged with the defaults
+export function hostsFromEnv(name: string, defaults: string[] = []): string[] {
+  const extra = (process.env[name] || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+  return [...defaults, ...extra];
+}
+
+/**
+ * True if `url` is an https URL on one of `hosts`, with no embedded
+ * credentials and the default port. A host entry starting with a dot
+ * (".example.com") also matches its subdomains.
+ */
+export function isUrlOnHosts(url: string, hosts: string[]): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  if (parsed.protocol !== 'https:' || parsed.username || parsed.password || parsed.port) {
+    return false;
+  }
+
+  const hostname = parsed.hostname.toLowerCase();
+  return hosts.some(host =>
+    host.startsWith('.') ? hostname.endsWith(host) && hostname !== host.slice(1) : hostname === host
+  );
+}
@@ -0,0 +1,61 @@
+import type { Attachment } from '@/lib/types';
+
+const CONTENT_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+};
+
+// Content type to assume when a URL has no recognizable extension
+const TOOL_DEFAULT_TYPES: Record<string, string> = {
+  video: 'video/mp4',
+  image: 'image/png',
+  audio: 'audio/mpeg',
+  voice: 'audio/mpeg',
+};
+
+/**
+ * Builds an attachment for a generated file URL, inferring its content
+ * type from the extension and falling back to what the tool produces.
+ */
+export function attachmentFromUrl(url: string, tool: string, index = 0): Attachment {
+  let extension = '';
+  try {
+    extension = new URL(url).pathname.split('.').pop()?.toLowerCase() ?? '';
+  } catch {
+    // Not an absolute URL; leave the type to the tool default
+  }
+
+  const contentType = CONTENT_TYPES[extension] || TOOL_DEFAULT_TYPES[tool] || 'application/octet-stream';
+  const suffix = index > 0 ? `-${index + 1}` : '';
+  const name = CONTENT_TYPES[extension]
+    ? `${tool}${suffix}.${extension}`
+    : `${tool}${suffix}.${contentType.split('/')[1]}`;
+
+  return { name, contentType, url };
+}
+
+/**
+ * Collects every file URL from a provider's output, which may be a single
+ * URL, a list of URLs or an object whose values are URLs.
+ */
+export function attachmentsFromOutput(output: unknown, tool: string): Attachment[] {
+  const values = Array.isArray(output)
+    ? output
+    : output && typeof output === 'object'
+      ? Object.values(output)
+      : [output];
+
+  return values
+    .filter((value): value is string => typeof value === 'string' && /^https?:\/\//.test(value))
+    .map((url, index) => attachmentFromUrl(url, tool, index));
+}
@@ -0,0 +1,29 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Token binding a callback URL to one job
+function signJob(jobId: string, secret: string) {
+  return createHmac('sha256', secret).update(`job:${jobId}`).digest('hex');
+}
+
+/**
+ * Builds the URL n8n or a provider webhook should call when a job
+ * finishes. Returns null when `JOB_CALLBACK_SECRET` is not configured,
+ * in which case completions are only picked up by polling.
+ */
+export function createJobCallbackUrl(origin: string, jobId: string): string | null {
+  const secret = process.env.JOB_CALLBACK_SECRET;
+  if (!secret) return null;
+
+  const baseUrl = process.env.APP_BASE_URL || origin;
+  const params = new URLSearchParams({ jobId, token: signJob(jobId, secret) });
+  return `${baseUrl}/api/jobs/callback?${params}`;
+}
+
+export function verifyJobCallback(jobId: string, token: string): boolean {
+  const secret = process.env.JOB_CALLBACK_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(signJob(jobId, secret));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
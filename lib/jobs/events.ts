@@ -0,0 +1,26 @@
+import { EventEmitter } from 'events';
+import type { JobEvent } from '@/lib/types';
+
+/*
+ * In-process pub/sub for job updates. Subscribers only see events published
+ * by the same server instance; clients still poll as a fallback for
+ * completions handled elsewhere.
+ */
+const globalForEvents = globalThis as unknown as { jobEvents?: EventEmitter };
+
+// Kept on globalThis so dev-mode module reloads share one emitter
+const emitter = globalForEvents.jobEvents ?? new EventEmitter();
+emitter.setMaxListeners(0);
+globalForEvents.jobEvents = emitter;
+
+export function publishJobEvent(chatId: string, event: JobEvent) {
+  emitter.emit(`chat:${chatId}`, event);
+}
+
+// Returns a function that removes the listener
+export function subscribeToJobEvents(chatId: string, listener: (event: JobEvent) => void) {
+  emitter.on(`chat:${chatId}`, listener);
+  return () => {
+    emitter.off(`chat:${chatId}`, listener);
+  };
+}
@@ -0,0 +1,185 @@
+import { v4 as uuidv4 } from 'uuid';
+import { addMessageToChat } from '@/lib/chat';
+import { getMode } from '@/lib/modes';
+import { moderateMessage } from '@/lib/moderation';
+import type { UploadContext } from '@/lib/storage';
+import { listTools } from '@/lib/tools';
+import type { Message } from '@/lib/types';
+import type { Job, JobUpdate } from './types';
+import { getJobStore } from './store';
+import { getJobProvider } from './providers';
+import { publishJobEvent } from './events';
+
+export { publishJobEvent, subscribeToJobEvents } from './events';
+export { createJobCallbackUrl, verifyJobCallback } from './callback';
+export { getJobProvider, parseJobHandle } from './providers';
+export type { Job, JobHandle, JobProvider, JobStatus, JobUpdate } from './types';
+
+const CANCELLED_COPY = "Okay, I stopped that one.";
+
+/**
+ * Tools whose requests return a job instead of waiting for the answer,
+ * as marked in the tool manifest (see lib/tools).
+ */
+export function isAsyncTool(tool: string | null | undefined): boolean {
+  if (!tool) return false;
+  return listTools().some(t => t.id === tool && t.async);
+}
+
+export const isJobSettled = (job: Job) =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+/**
+ * The chat message that represents a job: a placeholder while it runs,
+ * then its result, error or cancellation notice. The placeholder text
+ * defaults to the wait copy of the job's mode.
+ */
+export function jobToMessage(job: Job, pendingContent = getMode(job.mode).copy.wait): Message {
+  if (job.status === 'completed' && job.result) {
+    return {
+      id: job.messageId,
+      role: 'assistant',
+      status: job.result.moderation ? 'blocked' : 'completed',
+      content: job.result.content,
+      experimental_attachments: job.result.experimental_attachments,
+      ...(job.result.moderation && { moderation: job.result.moderation }),
+    };
+  }
+
+  if (job.status === 'failed') {
+    return { id: job.messageId, role: 'assistant', status: 'failed', content: job.error || '' };
+  }
+
+  if (job.status === 'cancelled') {
+    return { id: job.messageId, role: 'assistant', status: 'cancelled', content: CANCELLED_COPY };
+  }
+
+  return {
+    id: job.messageId,
+    role: 'assistant',
+    status: 'pending',
+    jobId: job.id,
+    content: pendingContent,
+    ...(job.progress !== undefined && { progress: job.progress }),
+  };
+}
+
+export async function createJob(fields: Pick<Job, 'chatId' | 'tool' | 'mode' | 'provider' | 'providerRef'> & { id?: string; messageId?: string }): Promise<Job> {
+  const now = Date.now();
+  const job: Job = {
+    ...fields,
+    id: fields.id || uuidv4(),
+    messageId: fields.messageId || uuidv4(),
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getJobStore().saveJob(job);
+  return job;
+}
+
+export async function getJob(jobId: string): Promise<Job | null> {
+  return getJobStore().getJob(jobId);
+}
+
+export async function saveJob(job: Job): Promise<void> {
+  await getJobStore().saveJob({ ...job, updatedAt: Date.now() });
+}
+
+/**
+ * Applies a provider update to a job. A settled job replaces its
+ * placeholder in the stored chat; every change is pushed to open tabs.
+ * Updates to a job that has already settled are ignored. `context` lets
+ * moderation read result images kept in the app's own storage.
+ */
+export async function applyJobUpdate(job: Job, update: JobUpdate, context: UploadContext): Promise<Job> {
+  if (isJobSettled(job)) return job;
+
+  let updated: Job;
+  if (update.status === 'completed') {
+    updated = {
+      ...job,
+      status: 'completed',
+      progress: 1,
+      result: await moderateResult(job, context, {
+        content: update.content || getMode(job.mode).copy.success,
+        experimental_attachments: update.experimental_attachments,
+      }),
+    };
+  } else if (update.status === 'failed') {
+    updated = {
+      ...job,
+      status: 'failed',
+      error: update.error || `The ${job.tool} generation failed.`,
+    };
+  } else if (update.status === 'cancelled') {
+    updated = { ...job, status: 'cancelled' };
+  } else {
+    // Nothing to record if neither the status nor the progress moved
+    if (job.status === 'processing' && update.progress === undefined) return job;
+    updated = { ...job, status: 'processing', progress: update.progress ?? job.progress };
+  }
+
+  await saveJob(updated);
+
+  if (updated.chatId) {
+    const message = jobToMessage(updated);
+    if (isJobSettled(updated)) {
+      try {
+        // The user may have moved to another branch while the job ran
+        await addMessageToChat(updated.chatId, message, { activate: false });
+      } catch (error) {
+        console.error('Failed to persist job result:', error);
+      }
+    }
+    publishJobEvent(updated.chatId, {
+      jobId: updated.id,
+      messageId: updated.messageId,
+      status: updated.status,
+      ...(updated.progress !== undefined && { progress: updated.progress }),
+      ...(isJobSettled(updated) && { message }),
+    });
+  }
+
+  return updated;
+}
+
+// In a moderated mode, a result that fails moderation is replaced by the refusal
+async function moderateResult(
+  job: Job,
+  context: UploadContext,
+  result: NonNullable<Job['result']>
+): Promise<NonNullable<Job['result']>> {
+  const { moderation } = getMode(job.mode);
+  if (!moderation) return result;
+
+  const verdict = await moderateMessage(result, context);
+  if (!verdict.flagged) return result;
+
+  return {
+    content: moderation.refusal,
+    experimental_attachments: [],
+    moderation: { stage: 'output', categories: verdict.categories },
+  };
+}
+
+/**
+ * Asks the job's provider for its current state and records it.
+ * Settled jobs are returned as they are.
+ */
+export async function refreshJob(job: Job, context: UploadContext): Promise<Job> {
+  if (isJobSettled(job)) return job;
+  const update = await getJobProvider(job.provider).poll(job);
+  return applyJobUpdate(job, update, context);
+}
+
+/**
+ * Asks the job's provider to stop and marks the job cancelled. If the
+ * provider refuses, the error is thrown and the job is left running.
+ * Settled jobs are returned as they are.
+ */
+export async function cancelJob(job: Job, context: UploadContext): Promise<Job> {
+  if (isJobSettled(job)) return job;
+  await getJobProvider(job.provider).cancel(job);
+  return applyJobUpdate(job, { status: 'cancelled' }, context);
+}
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Job } from '../types';
+import { getJobProvider, parseJobHandle } from '.';
+
+const job = (providerRef: string): Job => ({
+  id: 'job-1',
+  chatId: null,
+  messageId: 'message-1',
+  tool: 'video',
+  provider: 'replicate',
+  providerRef,
+  status: 'pending',
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('parseJobHandle', () => {
+  beforeEach(() => {
+    vi.stubEnv('N8N_WEBHOOK_URL', 'https://n8n.example.com/webhook/chat');
+    vi.stubEnv('N8N_STATUS_ALLOWED_HOSTS', '');
+    vi.stubEnv('REPLICATE_ALLOWED_HOSTS', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts a Replicate prediction on the Replicate API', () => {
+    expect(parseJobHandle({ replicateStreamUrl: 'https://api.replicate.com/v1/predictions/abc' })).toEqual({
+      provider: 'replicate',
+      providerRef: 'https://api.replicate.com/v1/predictions/abc',
+    });
+  });
+
+  it('accepts an n8n status URL on the webhook host', () => {
+    expect(parseJobHandle({ status: 'pending', statusUrl: 'https://n8n.example.com/webhook/status/1' })).toEqual({
+      provider: 'n8n',
+      providerRef: 'https://n8n.example.com/webhook/status/1',
+    });
+  });
+
+  it('accepts a pending n8n job without a status URL', () => {
+    expect(parseJobHandle({ status: 'pending' })).toEqual({ provider: 'n8n' });
+  });
+
+  it('rejects a Replicate URL off the allowlist, which would also be its cancel URL', () => {
+    expect(() => parseJobHandle({ replicateStreamUrl: 'https://evil.example.com/v1/predictions/abc' })).toThrow();
+    expect(() => parseJobHandle({ replicateStreamUrl: [{ url: 'http://api.replicate.com/v1/predictions/abc' }] })).toThrow();
+    expect(() => parseJobHandle({ replicateStreamUrl: 'https://token@api.replicate.com/v1/predictions/abc' })).toThrow();
+  });
+
+  it('rejects an n8n status URL off the allowlist', () => {
+    expect(() => parseJobHandle({ status: 'pending', statusUrl: 'https://169.254.169.254/latest' })).toThrow();
+    expect(() => parseJobHandle({ status: 'pending', statusUrl: 'https://n8n.example.com:8443/status/1' })).toThrow();
+    expect(() => parseJobHandle({ status: 'pending', statusUrl: 'https://n8n.example.com.evil.com/status/1' })).toThrow();
+  });
+
+  it('accepts hosts added through the env allowlists', () => {
+    vi.stubEnv('REPLICATE_ALLOWED_HOSTS', 'replicate-proxy.internal.example.com');
+    expect(parseJobHandle({ replicateStreamUrl: 'https://replicate-proxy.internal.example.com/v1/predictions/abc' }))
+      .toEqual({ provider: 'replicate', providerRef: 'https://replicate-proxy.internal.example.com/v1/predictions/abc' });
+  });
+
+  it('returns null when there is no handle', () => {
+    expect(parseJobHandle({ content: 'done' })).toBeNull();
+    expect(parseJobHandle(null)).toBeNull();
+  });
+});
+
+describe('Replicate job provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('does not send status or cancel requests to hosts off the allowlist', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const provider = getJobProvider('replicate');
+    const stored = job('https://evil.example.com/v1/predictions/abc');
+
+    await expect(provider.poll(stored)).rejects.toThrow();
+    await expect(provider.cancel(stored)).rejects.toThrow();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,56 @@
+import type { JobHandle, JobProvider } from '../types';
+import { createReplicateJobProvider } from './replicate';
+import { createN8nJobProvider } from './n8n';
+import { createMockJobProvider } from './mock';
+
+const providers: Record<string, JobProvider> = {
+  replicate: createReplicateJobProvider(),
+  n8n: createN8nJobProvider(),
+  mock: createMockJobProvider(),
+};
+
+export function getJobProvider(id: string): JobProvider {
+  const provider = providers[id];
+  if (!provider) {
+    throw new Error(`Unknown job provider: ${id}`);
+  }
+  return provider;
+}
+
+/**
+ * Looks for a job handle in an n8n response. n8n either returns the
+ * Replicate prediction URL it started, or reports `status: 'pending'`
+ * for a job it runs itself, optionally with a `statusUrl` to poll.
+ * Handles pointing outside the provider's allowed hosts are rejected
+ * with an error rather than stored.
+ */
+export function parseJobHandle(data: any): JobHandle | null {
+  const handle = findJobHandle(data);
+
+  if (handle?.providerRef && !getJobProvider(handle.provider).isAllowedRef(handle.providerRef)) {
+    throw new Error(`Refusing ${handle.provider} job handle outside the allowed hosts: ${handle.providerRef}`);
+  }
+
+  return handle;
+}
+
+function findJobHandle(data: any): JobHandle | null {
+  if (!data || typeof data !== 'object') return null;
+
+  // Safely extract the URL string, even if it's nested
+  const replicateUrl = typeof data.replicateStreamUrl === 'string'
+    ? data.replicateStreamUrl
+    : Array.isArray(data.replicateStreamUrl) ? data.replicateStreamUrl[0]?.url : undefined;
+  if (typeof replicateUrl === 'string' && replicateUrl) {
+    return { provider: 'replicate', providerRef: replicateUrl };
+  }
+
+  if (data.status === 'pending') {
+    return {
+      provider: 'n8n',
+      ...(typeof data.statusUrl === 'string' && { providerRef: data.statusUrl }),
+    };
+  }
+
+  return null;
+}
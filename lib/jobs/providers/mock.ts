@@ -0,0 +1,37 @@
+import type { JobProvider } from '../types';
+
+const getDuration = () => (Number(process.env.MOCK_JOB_SECONDS) || 5) * 1000;
+
+/**
+ * Jobs started by the mock generation provider (see lib/generation). The
+ * placeholder file is stored up front and its URL kept as the handle; the
+ * job reports steady progress and completes with that file once
+ * `MOCK_JOB_SECONDS` (5 by default) have passed.
+ */
+export function createMockJobProvider(): JobProvider {
+  return {
+    id: 'mock',
+    // Only ever set by the mock provider, and never fetched
+    isAllowedRef: () => true,
+
+    async poll(job) {
+      const progress = (Date.now() - job.createdAt) / getDuration();
+      if (progress < 1) {
+        return { status: 'processing', progress: Math.round(progress * 100) / 100 };
+      }
+
+      return {
+        status: 'completed',
+        experimental_attachments: job.providerRef
+          ? [{ name: `${job.tool}.svg`, contentType: 'image/svg+xml', url: job.providerRef }]
+          : [],
+      };
+    },
+
+    async cancel() {
+      // Nothing runs in the background
+    },
+
+    parseCallback: () => ({ status: 'processing' }),
+  };
+}
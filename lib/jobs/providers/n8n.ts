@@ -0,0 +1,98 @@
+import type { Job, JobProvider, JobUpdate } from '../types';
+import { attachmentsFromOutput } from '../attachments';
+import { hostsFromEnv, isUrlOnHosts } from '../allowlist';
+
+// Status URLs must live on the n8n instance we call, or on listed hosts
+function getAllowedHosts() {
+  let webhookHost: string[] = [];
+  try {
+    webhookHost = process.env.N8N_WEBHOOK_URL ? [new URL(process.env.N8N_WEBHOOK_URL).hostname] : [];
+  } catch {
+    // Misconfigured webhook URL; only the explicit list applies
+  }
+  return hostsFromEnv('N8N_STATUS_ALLOWED_HOSTS', webhookHost);
+}
+
+/**
+ * Translates an n8n job report. n8n workflows answer with
+ * `{ status, content, experimental_attachments, progress, error }`,
+ * optionally listing plain file URLs under `output` instead.
+ */
+function translateResult(job: Job, data: any): JobUpdate {
+  if (data.status === 'completed' || data.status === 'succeeded') {
+    return {
+      status: 'completed',
+      content: data.content || data.text || undefined,
+      experimental_attachments: Array.isArray(data.experimental_attachments)
+        ? data.experimental_attachments
+        : attachmentsFromOutput(data.output, job.tool),
+    };
+  }
+
+  if (data.status === 'cancelled' || data.status === 'canceled') {
+    return { status: 'cancelled' };
+  }
+
+  if (data.status === 'failed') {
+    return { status: 'failed', error: data.error || undefined };
+  }
+
+  const progress = Number(data.progress);
+  return {
+    status: 'processing',
+    ...(Number.isFinite(progress) && { progress: Math.min(Math.max(progress, 0), 1) }),
+  };
+}
+
+/**
+ * Jobs run by an n8n workflow. They normally report back through the job
+ * callback; when n8n also returned a status URL, polling uses it.
+ * Cancellation is forwarded to the workflow at `N8N_CANCEL_WEBHOOK_URL`;
+ * without one, the job is only cancelled on our side and a late result
+ * is ignored.
+ */
+export function createN8nJobProvider(): JobProvider {
+  const isAllowedRef = (ref: string) => isUrlOnHosts(ref, getAllowedHosts());
+
+  return {
+    id: 'n8n',
+    isAllowedRef,
+
+    async poll(job) {
+      if (!job.providerRef) {
+        return { status: 'processing' };
+      }
+      if (!isAllowedRef(job.providerRef)) {
+        throw new Error(`n8n job ${job.id} points outside the allowed hosts`);
+      }
+
+      const response = await fetch(job.providerRef, {
+        headers: { 'Content-Type': 'application/json' },
+        redirect: 'error',
+      });
+
+      if (!response.ok) {
+        throw new Error(`n8n status check failed with status: ${response.status}`);
+      }
+
+      return translateResult(job, await response.json());
+    },
+
+    async cancel(job) {
+      const cancelUrl = process.env.N8N_CANCEL_WEBHOOK_URL;
+      if (!cancelUrl) return;
+
+      const response = await fetch(cancelUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId: job.id, tool: job.tool, chatId: job.chatId }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`n8n cancel failed with status: ${response.status}`);
+      }
+    },
+
+    parseCallback: translateResult,
+  };
+}
@@ -0,0 +1,83 @@
+import type { Job, JobProvider, JobUpdate } from '../types';
+import { attachmentsFromOutput } from '../attachments';
+import { hostsFromEnv, isUrlOnHosts } from '../allowlist';
+
+// Hosts allowed to receive our Replicate token, extendable for proxies
+const getAllowedHosts = () => hostsFromEnv('REPLICATE_ALLOWED_HOSTS', ['api.replicate.com']);
+
+/**
+ * Translates a Replicate prediction, as returned by its API or posted to
+ * a webhook, into a job update.
+ */
+function translatePrediction(job: Job, data: any): JobUpdate {
+  if (data.status === 'succeeded') {
+    return {
+      status: 'completed',
+      experimental_attachments: attachmentsFromOutput(data.output, job.tool),
+    };
+  }
+
+  if (data.status === 'canceled') {
+    return { status: 'cancelled' };
+  }
+
+  if (data.status === 'failed') {
+    return { status: 'failed', error: data.error || undefined };
+  }
+
+  // Otherwise, it's still processing ('starting', 'processing')
+  return { status: 'processing' };
+}
+
+function replicateRequest(url: string, method = 'GET') {
+  return fetch(url, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${process.env.REPLICATE_API_TOKEN}`,
+      'Content-Type': 'application/json',
+    },
+    // A redirect could lead the token anywhere
+    redirect: 'error',
+  });
+}
+
+export function createReplicateJobProvider(): JobProvider {
+  const isAllowedRef = (ref: string) => isUrlOnHosts(ref, getAllowedHosts());
+
+  return {
+    id: 'replicate',
+    isAllowedRef,
+
+    async poll(job) {
+      if (!job.providerRef) {
+        throw new Error(`Replicate job ${job.id} has no prediction URL`);
+      }
+      // Checked again at fetch time in case the job was stored before the allow-list
+      if (!isAllowedRef(job.providerRef)) {
+        throw new Error(`Replicate job ${job.id} points outside the allowed hosts`);
+      }
+
+      const response = await replicateRequest(job.providerRef);
+
+      if (!response.ok) {
+        throw new Error(`Replicate status check failed with status: ${response.status}`);
+      }
+
+      return translatePrediction(job, await response.json());
+    },
+
+    async cancel(job) {
+      if (!job.providerRef || !isAllowedRef(job.providerRef)) {
+        throw new Error(`Replicate job ${job.id} has no cancellable prediction URL`);
+      }
+
+      const response = await replicateRequest(`${job.providerRef.replace(/\/$/, '')}/cancel`, 'POST');
+
+      if (!response.ok) {
+        throw new Error(`Replicate cancel failed with status: ${response.status}`);
+      }
+    },
+
+    parseCallback: translatePrediction,
+  };
+}
@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { kv } from '@vercel/kv';
+import type { Job } from './types';
+
+export interface JobStore {
+  getJob(jobId: string): Promise<Job | null>;
+  saveJob(job: Job): Promise<void>;
+}
+
+// Finished jobs are only kept around for late status checks
+const JOB_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+function createKVJobStore(): JobStore {
+  return {
+    async getJob(jobId) {
+      return (await kv.get<Job>(`job:${jobId}`)) ?? null;
+    },
+
+    async saveJob(job) {
+      await kv.set(`job:${job.id}`, job, { ex: JOB_TTL_SECONDS });
+    },
+  };
+}
+
+function createMemoryJobStore(): JobStore {
+  const jobs = new Map<string, Job>();
+
+  return {
+    async getJob(jobId) {
+      return jobs.get(jobId) ?? null;
+    },
+
+    async saveJob(job) {
+      jobs.set(job.id, job);
+    },
+  };
+}
+
+function createFileJobStore(dir: string): JobStore {
+  const jobPath = (jobId: string) => path.join(dir, `${encodeURIComponent(jobId)}.json`);
+
+  return {
+    async getJob(jobId) {
+      try {
+        return JSON.parse(await fs.readFile(jobPath(jobId), 'utf8')) as Job;
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async saveJob(job) {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(jobPath(job.id), JSON.stringify(job), 'utf8');
+    },
+  };
+}
+
+let store: JobStore | null = null;
+
+// Uses the same backend selection as the chat store
+export function getJobStore(): JobStore {
+  if (!store) {
+    const driver = process.env.CHAT_STORE || (process.env.KV_REST_API_URL ? 'kv' : 'file');
+
+    if (driver === 'kv') {
+      store = createKVJobStore();
+    } else if (driver === 'memory') {
+      store = createMemoryJobStore();
+    } else {
+      store = createFileJobStore(process.env.JOB_STORE_DIR || '.data/jobs');
+    }
+  }
+  return store;
+}
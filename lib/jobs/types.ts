@@ -0,0 +1,59 @@
+import type { Attachment, JobStatus, Message } from '@/lib/types';
+
+export type { JobStatus } from '@/lib/types';
+
+/**
+ * A long-running tool invocation. The chat shows a placeholder message
+ * (`messageId`) until the job settles into a result or an error.
+ */
+export type Job = {
+  id: string;
+  chatId: string | null;
+  messageId: string;
+  tool: string;
+  // Mode the job was started in, which picks the copy shown for it
+  mode?: string;
+  // Adapter that knows how to check on the job, e.g. 'replicate' or 'n8n'
+  provider: string;
+  // Provider-specific handle such as a status URL; never sent to the client
+  providerRef?: string;
+  status: JobStatus;
+  // Fraction between 0 and 1 when the provider reports it
+  progress?: number;
+  result?: {
+    content: string;
+    experimental_attachments: Attachment[];
+    // Present when moderation replaced the output with a refusal
+    moderation?: Message['moderation'];
+  };
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+// Normalized progress report from whichever provider runs a job
+export type JobUpdate =
+  | { status: 'processing'; progress?: number }
+  | { status: 'completed'; content?: string; experimental_attachments: Attachment[] }
+  | { status: 'failed'; error?: string }
+  | { status: 'cancelled' };
+
+/**
+ * Adapter for a job provider. `poll` checks on a job; `parseCallback`
+ * turns a webhook body from the provider into an update; `cancel` asks
+ * the provider to stop work. `isAllowedRef` guards which provider handles
+ * may be stored and fetched.
+ */
+export interface JobProvider {
+  id: string;
+  poll(job: Job): Promise<JobUpdate>;
+  cancel(job: Job): Promise<void>;
+  parseCallback(job: Job, body: any): JobUpdate;
+  isAllowedRef(ref: string): boolean;
+}
+
+// What n8n hands back when it starts a job instead of answering directly
+export type JobHandle = {
+  provider: string;
+  providerRef?: string;
+};
@@ -0,0 +1,19 @@
+import type { ModelConfig } from './types';
+
+// Used when no registry is configured with `CHAT_MODELS` or `CHAT_MODELS_FILE`
+export const DEFAULT_MODELS: ModelConfig[] = [
+  {
+    id: 'gpt-4o',
+    label: 'GPT-4o',
+    provider: 'openai',
+    capabilities: { vision: true, tools: true },
+    maxContextTokens: 128000,
+  },
+  {
+    id: 'gpt-4o-mini',
+    label: 'GPT-4o mini',
+    provider: 'openai',
+    capabilities: { vision: true, tools: true },
+    maxContextTokens: 128000,
+  },
+];
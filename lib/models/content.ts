@@ -0,0 +1,115 @@
+import type { CoreMessage, ImagePart, TextPart } from 'ai';
+import type { ContextMessage } from '@/lib/context';
+import { extractDocument, isExtractable, type ExtractedDocument } from '@/lib/documents';
+import { getStorageProvider, type UploadContext } from '@/lib/storage';
+import type { Attachment } from '@/lib/types';
+import type { ModelConfig } from './types';
+
+// Image formats vision models accept
+const VISION_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Heading for a document's text, e.g. `[Attachment "report.pdf": 12 pages, truncated]`
+function documentHeading(name: string, { metadata, truncated }: ExtractedDocument): string {
+  const details = [
+    metadata.pages !== undefined && `${metadata.pages} page${metadata.pages === 1 ? '' : 's'}`,
+    metadata.sheets && `sheets ${metadata.sheets.join(', ')}`,
+    truncated && 'truncated',
+  ].filter(Boolean);
+  return `[Attachment "${name}"${details.length ? `: ${details.join(', ')}` : ''}]`;
+}
+
+// An attachment as the model sees it, and why it was left out if it was
+type AttachmentPart = { part: TextPart | ImagePart; skipped?: string };
+
+const skip = (attachment: Attachment, reason: string): AttachmentPart => ({
+  part: { type: 'text', text: `[Attachment "${attachment.name}" was not read: ${reason}]` },
+  skipped: reason,
+});
+
+async function toAttachmentPart(
+  attachment: Attachment,
+  model: ModelConfig,
+  context: UploadContext,
+  indexed: boolean
+): Promise<AttachmentPart | null> {
+  const type = attachment.contentType || '';
+
+  // Voice notes reach the model through their transcripts in the text
+  if (type.startsWith('audio/')) {
+    return attachment.transcript === undefined ? skip(attachment, 'it could not be transcribed') : null;
+  }
+
+  if (type.startsWith('image/')) {
+    if (!model.capabilities.vision) return skip(attachment, `${model.label} can't see images`);
+    if (!VISION_TYPES.includes(type)) return skip(attachment, `${type} images are not supported`);
+
+    // Files stored here are sent inline, since the provider can't reach this server
+    const stored = await getStorageProvider().read(attachment.url, context).catch(() => null);
+    if (stored) return { part: { type: 'image', image: stored.data, mimeType: stored.contentType } };
+    if (attachment.url.startsWith('https://')) return { part: { type: 'image', image: new URL(attachment.url) } };
+    return skip(attachment, 'the file could not be loaded');
+  }
+
+  if (isExtractable(type)) {
+    // Relevant passages of indexed documents are added to the system prompt
+    if (indexed) return { part: { type: 'text', text: `[Attachment "${attachment.name}": searched for relevant passages]` } };
+
+    const stored = await getStorageProvider().read(attachment.url, context).catch(() => null);
+    if (!stored) return skip(attachment, 'the file could not be loaded');
+
+    const document = await extractDocument(stored).catch(error => {
+      console.error(`Failed to extract text from ${attachment.name}:`, error);
+      return null;
+    });
+    if (!document) return skip(attachment, 'its text could not be extracted');
+    return { part: { type: 'text', text: `${documentHeading(attachment.name, document)}\n${document.text}` } };
+  }
+
+  return skip(attachment, `${type || 'this file type'} can't be read yet`);
+}
+
+/**
+ * Converts the context window into model messages. User attachments
+ * become content parts: images for vision models, extracted text for
+ * documents (see lib/documents). With `retrieval`, documents before the
+ * latest message are only named, since lib/retrieval supplies the parts
+ * that matter.
+ * Anything the model can't take is replaced by a short marker, and for
+ * the latest message listed in `skipped` so the reply can say so.
+ */
+export async function toModelMessages(
+  messages: ContextMessage[],
+  model: ModelConfig,
+  context: UploadContext,
+  { retrieval = false }: { retrieval?: boolean } = {}
+): Promise<{ messages: CoreMessage[]; skipped: string[] }> {
+  const skipped: string[] = [];
+
+  const converted = await Promise.all(messages.map(async (message, index): Promise<CoreMessage> => {
+    const attachments = message.experimental_attachments || [];
+    if (message.role !== 'user' || attachments.length === 0) {
+      return { role: message.role, content: message.content } as CoreMessage;
+    }
+
+    const indexed = retrieval && index < messages.length - 1;
+    const parts = (await Promise.all(attachments.map(a => toAttachmentPart(a, model, context, indexed))))
+      .map((result, i) => {
+        if (result?.skipped && index === messages.length - 1) {
+          skipped.push(`${attachments[i].name} (${result.skipped})`);
+        }
+        return result?.part;
+      })
+      .filter((part): part is TextPart | ImagePart => Boolean(part));
+
+    return {
+      role: 'user',
+      content: [...(message.content ? [{ type: 'text' as const, text: message.content }] : []), ...parts],
+    };
+  }));
+
+  return { messages: converted, skipped };
+}
+
+// Shown at the top of a reply when some of the user's attachments were not used
+export const formatSkippedNotice = (skipped: string[]) =>
+  `_Some attachments were not used: ${skipped.join('; ')}._\n\n`;
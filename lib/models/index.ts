@@ -0,0 +1,98 @@
+import { readFileSync } from 'fs';
+import { createOpenAI } from '@ai-sdk/openai';
+import type { LanguageModel } from 'ai';
+import type { ModelConfig, ModelInfo } from './types';
+import { DEFAULT_MODELS } from './config';
+
+export type { ModelCapabilities, ModelConfig, ModelInfo, ModelProvider } from './types';
+export { formatSkippedNotice, toModelMessages } from './content';
+
+let registry: ModelConfig[] | null = null;
+
+// Fills in defaults and drops entries without an id or with an unknown provider
+function normalizeModels(entries: unknown): ModelConfig[] {
+  if (!Array.isArray(entries)) {
+    throw new Error('the model registry must be a JSON array');
+  }
+
+  return entries.flatMap((entry: any): ModelConfig[] => {
+    if (!entry || typeof entry.id !== 'string' || !entry.id) return [];
+    const provider = entry.provider ?? 'openai';
+    if (provider !== 'openai' && provider !== 'openai-compatible') {
+      console.error(`Skipping model ${entry.id} with unknown provider: ${provider}`);
+      return [];
+    }
+
+    return [{
+      id: entry.id,
+      label: typeof entry.label === 'string' ? entry.label : entry.id,
+      provider,
+      ...(typeof entry.model === 'string' && { model: entry.model }),
+      ...(typeof entry.baseURL === 'string' && { baseURL: entry.baseURL }),
+      ...(typeof entry.apiKeyEnv === 'string' && { apiKeyEnv: entry.apiKeyEnv }),
+      capabilities: {
+        vision: entry.capabilities?.vision === true,
+        tools: entry.capabilities?.tools === true,
+      },
+      maxContextTokens: Number(entry.maxContextTokens) > 0 ? Number(entry.maxContextTokens) : 8192,
+    }];
+  });
+}
+
+/**
+ * The models users can pick from. The registry is a JSON array of
+ * `ModelConfig` entries, given inline in `CHAT_MODELS` or in the file
+ * named by `CHAT_MODELS_FILE`; without either, the OpenAI defaults are
+ * used. A registry that cannot be read is logged and the defaults used.
+ */
+export function listModels(): ModelConfig[] {
+  if (!registry) {
+    try {
+      const source = process.env.CHAT_MODELS
+        || (process.env.CHAT_MODELS_FILE && readFileSync(process.env.CHAT_MODELS_FILE, 'utf8'));
+      registry = source ? normalizeModels(JSON.parse(source)) : DEFAULT_MODELS;
+    } catch (error) {
+      console.error('Could not load the model registry, using the defaults:', error);
+      registry = DEFAULT_MODELS;
+    }
+    if (registry.length === 0) registry = DEFAULT_MODELS;
+  }
+  return registry;
+}
+
+// `DEFAULT_CHAT_MODEL` when it is in the registry, otherwise the first entry
+export function getDefaultModel(): ModelConfig {
+  const models = listModels();
+  return models.find(model => model.id === process.env.DEFAULT_CHAT_MODEL) || models[0];
+}
+
+/**
+ * The model with the given id, or the default model when no id is given.
+ * Returns null for ids that are not in the registry.
+ */
+export function getModel(id: string | null | undefined): ModelConfig | null {
+  if (!id) return getDefaultModel();
+  return listModels().find(model => model.id === id) || null;
+}
+
+export const toModelInfo = ({ id, label, provider, capabilities, maxContextTokens }: ModelConfig): ModelInfo => ({
+  id,
+  label,
+  provider,
+  capabilities,
+  maxContextTokens,
+});
+
+/**
+ * The AI SDK model for a registry entry. OpenAI-compatible servers get
+ * the key from `apiKeyEnv` if one is named; local servers such as Ollama
+ * accept any key, so a placeholder is sent otherwise.
+ */
+export function getLanguageModel(config: ModelConfig): LanguageModel {
+  const apiKey = config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined;
+  const provider = config.provider === 'openai'
+    ? createOpenAI({ apiKey, baseURL: config.baseURL, compatibility: 'strict' })
+    : createOpenAI({ apiKey: apiKey || 'not-needed', baseURL: config.baseURL, compatibility: 'compatible' });
+
+  return provider(config.model || config.id);
+}
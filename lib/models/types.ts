@@ -0,0 +1,30 @@
+// `openai` is OpenAI itself; `openai-compatible` is any server speaking
+// its chat API, such as Ollama, LM Studio or vLLM
+export type ModelProvider = 'openai' | 'openai-compatible';
+
+export type ModelCapabilities = {
+  // Accepts images in prompts
+  vision: boolean;
+  // Supports function calling
+  tools: boolean;
+};
+
+/**
+ * A chat model users can pick, as configured in the model registry.
+ * `model` is the name the provider knows it by when it differs from `id`.
+ * Keys are never stored here; `apiKeyEnv` names the variable holding one.
+ */
+export type ModelConfig = {
+  id: string;
+  label: string;
+  provider: ModelProvider;
+  model?: string;
+  baseURL?: string;
+  apiKeyEnv?: string;
+  capabilities: ModelCapabilities;
+  // Context window in tokens
+  maxContextTokens: number;
+};
+
+// What the model picker is told about a model; endpoints stay on the server
+export type ModelInfo = Pick<ModelConfig, 'id' | 'label' | 'provider' | 'capabilities' | 'maxContextTokens'>;
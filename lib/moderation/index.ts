@@ -0,0 +1,132 @@
+import { getStorageProvider, type UploadContext } from '@/lib/storage';
+import type { Attachment, Message } from '@/lib/types';
+import type { ModerationChecker, ModerationInput, ModerationVerdict } from './types';
+import { createRulesChecker } from './rules';
+import { createOpenAIModerationChecker } from './openai';
+
+export type { ModerationChecker, ModerationInput, ModerationVerdict } from './types';
+
+let checkers: ModerationChecker[] | null = null;
+
+/**
+ * Returns the checkers listed in `MODERATION_CHECKERS` (comma-separated
+ * `rules` and `openai`). Defaults to the local rules, plus OpenAI when its
+ * key is configured. A listed checker that can't be set up, such as
+ * OpenAI without a key, is left out with a logged error; the local rules
+ * are used if nothing else is left.
+ */
+export function getModerationCheckers(): ModerationChecker[] {
+  if (!checkers) {
+    const names = (process.env.MODERATION_CHECKERS || (process.env.OPENAI_API_KEY ? 'rules,openai' : 'rules'))
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean);
+
+    checkers = names.flatMap(name => {
+      try {
+        return [name === 'openai' ? createOpenAIModerationChecker() : createRulesChecker()];
+      } catch (error) {
+        console.error(`Moderation checker "${name}" is not available:`, error);
+        return [];
+      }
+    });
+    if (checkers.length === 0) checkers = [createRulesChecker()];
+  }
+  return checkers;
+}
+
+/**
+ * Runs every checker over the input. It is flagged when any checker flags
+ * it or fails to answer. Media that no checker can inspect (`unchecked`,
+ * plus images when no checker sees images) is flagged as well, unless
+ * `MODERATION_UNCHECKED_MEDIA=allow`.
+ */
+export async function moderate(input: ModerationInput & { unchecked?: string[] }): Promise<ModerationVerdict> {
+  const active = getModerationCheckers();
+  const seesImages = active.some(checker => checker.checksImages);
+  const unchecked = [...(input.unchecked || []), ...(seesImages ? [] : input.images)];
+
+  const verdicts = await Promise.all(active.map(async (checker): Promise<ModerationVerdict> => {
+    const images = checker.checksImages ? input.images : [];
+    if (!input.text && images.length === 0) return { flagged: false, categories: [] };
+
+    try {
+      return await checker.check({ text: input.text, images });
+    } catch (error) {
+      console.error(`Moderation check "${checker.name}" failed:`, error);
+      return { flagged: true, categories: ['moderation_unavailable'] };
+    }
+  }));
+
+  const categories = new Set(verdicts.flatMap(verdict => verdict.categories));
+  let flagged = verdicts.some(verdict => verdict.flagged);
+  if (unchecked.length > 0 && process.env.MODERATION_UNCHECKED_MEDIA !== 'allow') {
+    flagged = true;
+    categories.add('unverified_media');
+  }
+
+  return { flagged, categories: Array.from(categories) };
+}
+
+// An image as a URL a checker can load: files stored here are inlined,
+// so the checker never has to reach this server
+async function imageUrl(attachment: Attachment, context?: UploadContext): Promise<string | null> {
+  if (attachment.url.startsWith('data:image/')) return attachment.url;
+
+  const stored = context
+    ? await getStorageProvider().read(attachment.url, context).catch(() => null)
+    : null;
+  if (stored) {
+    return `data:${stored.contentType};base64,${Buffer.from(stored.data).toString('base64')}`;
+  }
+
+  return attachment.url.startsWith('https://') ? attachment.url : null;
+}
+
+/**
+ * Moderates a message's text and attachments. Voice notes are checked
+ * through their transcripts; video and untranscribed audio can't be
+ * inspected and count as unchecked media.
+ */
+export async function moderateMessage(
+  message: Pick<Message, 'content' | 'experimental_attachments'>,
+  context?: UploadContext
+): Promise<ModerationVerdict> {
+  const attachments = message.experimental_attachments || [];
+  const seesImages = getModerationCheckers().some(checker => checker.checksImages);
+  const images: string[] = [];
+  const unchecked: string[] = [];
+
+  for (const attachment of attachments) {
+    const type = attachment.contentType || '';
+    if (type.startsWith('image/')) {
+      const url = seesImages ? await imageUrl(attachment, context) : null;
+      if (url) images.push(url);
+      else unchecked.push(attachment.name);
+    } else if (type.startsWith('video/') || (type.startsWith('audio/') && attachment.transcript === undefined)) {
+      unchecked.push(attachment.name);
+    }
+  }
+
+  const text = [message.content, ...attachments.map(a => a.transcript)].filter(Boolean).join('\n');
+  return moderate({ text, images, unchecked });
+}
+
+/**
+ * The reply that stands in for blocked content: the mode's refusal copy,
+ * marked so the UI can show it apart from normal replies.
+ */
+export function createRefusal(
+  content: string,
+  stage: 'input' | 'output',
+  verdict: ModerationVerdict,
+  id: string
+): Message {
+  return {
+    id,
+    role: 'assistant',
+    status: 'blocked',
+    content,
+    moderation: { stage, categories: verdict.categories },
+  };
+}
@@ -0,0 +1,47 @@
+import type { ModerationChecker } from './types';
+
+/**
+ * OpenAI's moderation endpoint, which classifies text and images
+ * together. `MODERATION_MODEL` overrides the model
+ * (`omni-moderation-latest` by default).
+ */
+export function createOpenAIModerationChecker(): ModerationChecker {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY is not configured');
+  }
+
+  return {
+    name: 'openai',
+    checksImages: true,
+
+    async check({ text, images }) {
+      const response = await fetch('https://api.openai.com/v1/moderations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model: process.env.MODERATION_MODEL || 'omni-moderation-latest',
+          input: [
+            ...(text ? [{ type: 'text', text }] : []),
+            ...images.map(url => ({ type: 'image_url', image_url: { url } })),
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI moderation error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const result = data.results?.[0];
+      const categories = Object.entries(result?.categories || {})
+        .filter(([, flagged]) => flagged)
+        .map(([category]) => category);
+
+      return { flagged: Boolean(result?.flagged), categories };
+    },
+  };
+}
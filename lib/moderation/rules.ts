@@ -0,0 +1,41 @@
+import type { ModerationChecker } from './types';
+
+type Rule = { category: string; pattern: RegExp };
+
+// Deliberately small; deployments extend it with `MODERATION_BLOCKED_TERMS`
+const DEFAULT_RULES: Rule[] = [
+  { category: 'sexual', pattern: /\b(porn\w*|nsfw|nudes?|naked|hentai|explicit sex\w*)\b/i },
+  { category: 'violence', pattern: /\b(gore|gory|behead\w*|dismember\w*|torture porn)\b/i },
+  { category: 'self-harm', pattern: /\b(kill myself|suicide method\w*|self[- ]harm\w*)\b/i },
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Extra terms from a comma-separated env var, matched as whole words
+function rulesFromEnv(): Rule[] {
+  return (process.env.MODERATION_BLOCKED_TERMS || '')
+    .split(',')
+    .map(term => term.trim())
+    .filter(Boolean)
+    .map(term => ({ category: 'custom', pattern: new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i') }));
+}
+
+/**
+ * Local keyword and regex rules. Needs no network access, so it always
+ * runs, but it only sees text.
+ */
+export function createRulesChecker(): ModerationChecker {
+  const rules = [...DEFAULT_RULES, ...rulesFromEnv()];
+
+  return {
+    name: 'rules',
+    checksImages: false,
+
+    async check({ text }) {
+      const categories = Array.from(new Set(
+        rules.filter(rule => rule.pattern.test(text)).map(rule => rule.category)
+      ));
+      return { flagged: categories.length > 0, categories };
+    },
+  };
+}
@@ -0,0 +1,22 @@
+// What a checker inspects: the text of a message, transcripts included,
+// and its images as https or data URLs
+export type ModerationInput = {
+  text: string;
+  images: string[];
+};
+
+export type ModerationVerdict = {
+  flagged: boolean;
+  // Why content was flagged, e.g. 'sexual', 'violence' or 'unverified_media'
+  categories: string[];
+};
+
+/**
+ * A content check used by moderated modes. Checkers that can't look at
+ * images leave `checksImages` false and only see the text.
+ */
+export interface ModerationChecker {
+  name: string;
+  checksImages: boolean;
+  check(input: ModerationInput): Promise<ModerationVerdict>;
+}
@@ -0,0 +1,39 @@
+import type { Mode } from './types';
+
+const BASE_PROMPT =
+  "do not respond on markdown or lists, keep your responses brief, you can ask the user to upload images or documents if it could help you understand the problem better";
+
+// The first entry is the default for new chats
+export const MODES: Mode[] = [
+  {
+    id: 'wild',
+    label: 'Wild',
+    icon: 'code',
+    badge: 'Premium+',
+    systemPrompt: BASE_PROMPT,
+    prefix: '/wild',
+    copy: {
+      placeholder: 'Send a message...',
+      wait: 'Give me one second, Daddy...',
+      success: 'Here you go, Daddy. You like what you see?',
+    },
+    tools: ['image', 'video', 'audio', 'voice'],
+  },
+  {
+    id: 'safe',
+    label: 'Safe',
+    icon: 'shield',
+    badge: 'Basic+',
+    systemPrompt: `${BASE_PROMPT}, keep everything suitable for all audiences`,
+    prefix: '/safe',
+    copy: {
+      placeholder: 'Send a message...',
+      wait: 'Working on it, one moment...',
+      success: 'All done. Here it is.',
+    },
+    tools: ['image', 'video', 'audio', 'voice'],
+    moderation: {
+      refusal: "Sorry, I can't help with that in Safe Mode.",
+    },
+  },
+];
@@ -0,0 +1,17 @@
+import type { Mode } from './types';
+import { MODES } from './config';
+
+export type { Mode, ModeIconName } from './types';
+export { MODES } from './config';
+
+export const DEFAULT_MODE_ID = MODES[0].id;
+
+/**
+ * The mode with the given id. Unknown or missing ids, such as a mode
+ * that has since been removed from the config, get the default mode.
+ */
+export function getMode(id: string | null | undefined): Mode {
+  return MODES.find(mode => mode.id === id) || MODES[0];
+}
+
+export const isToolAllowed = (mode: Mode, tool: string) => mode.tools.includes(tool);
@@ -0,0 +1,34 @@
+// Icons available to modes; drawn by `ModeIcon` in components/icons
+export type ModeIconName = 'shield' | 'code';
+
+/**
+ * A persona the assistant can take on. Everything mode-specific lives
+ * here: what the Modes menu shows, the prompt for the direct OpenAI path,
+ * the prefix n8n routes on, the copy shown around long-running jobs,
+ * which tools can be used and whether content is moderated.
+ */
+export type Mode = {
+  id: string;
+  label: string;
+  icon: ModeIconName;
+  // Plan badge shown next to the mode in the menu
+  badge?: string;
+  systemPrompt: string;
+  // Sent to n8n in front of the message, e.g. `/wild`
+  prefix: string;
+  copy: {
+    // Composer placeholder
+    placeholder: string;
+    // Pending bubble while a long-running job works
+    wait: string;
+    // Reply when a job finishes without text of its own
+    success: string;
+  };
+  // Tool ids that can be used in this mode
+  tools: string[];
+  // When set, prompts and replies are moderated and blocked content is
+  // answered with `refusal` (see lib/moderation)
+  moderation?: {
+    refusal: string;
+  };
+};
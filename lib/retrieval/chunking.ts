@@ -0,0 +1,59 @@
+import type { PassageSource } from './types';
+
+// Target chunk length in characters; long enough to hold a thought, short
+// enough that a few chunks fit alongside the conversation
+const CHUNK_CHARS = 1000;
+
+// Splits a paragraph longer than a chunk at sentence ends, or spaces
+function splitParagraph(paragraph: string): string[] {
+  const pieces: string[] = [];
+  let rest = paragraph;
+  while (rest.length > CHUNK_CHARS) {
+    const window = rest.slice(0, CHUNK_CHARS);
+    const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('\n'));
+    const space = window.lastIndexOf(' ');
+    const end = sentenceEnd > CHUNK_CHARS / 2 ? sentenceEnd + 1 : space > CHUNK_CHARS / 2 ? space : CHUNK_CHARS;
+    pieces.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+  return rest ? [...pieces, rest] : pieces;
+}
+
+// Packs paragraphs into chunks of up to CHUNK_CHARS
+function packParagraphs(text: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of text.split(/\n{2,}/).flatMap(splitParagraph)) {
+    if (current && current.length + paragraph.length + 2 > CHUNK_CHARS) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+
+  return current ? [...chunks, current] : chunks;
+}
+
+/**
+ * Splits extracted document text into chunks along paragraph breaks.
+ * PDF text is first split at its `[Page N]` markers (see lib/documents),
+ * so no chunk spans two pages and each knows its page.
+ */
+export function chunkDocument(text: string, source: Omit<PassageSource, 'page'>): { source: PassageSource; text: string }[] {
+  const pages = text.split(/^\[Page (\d+)\]\n/m);
+
+  // Without page markers the split leaves the whole text in one piece
+  if (pages.length === 1) {
+    return packParagraphs(text).map(chunk => ({ source, text: chunk }));
+  }
+
+  const chunks: { source: PassageSource; text: string }[] = [];
+  for (let i = 1; i < pages.length; i += 2) {
+    const page = Number(pages[i]);
+    for (const chunk of packParagraphs(pages[i + 1].trim())) {
+      chunks.push({ source: { ...source, page }, text: chunk });
+    }
+  }
+  return chunks;
+}
@@ -0,0 +1,153 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getChat } from '@/lib/chat';
+import { extractDocument, isExtractable } from '@/lib/documents';
+import { getStorageProvider, type UploadContext } from '@/lib/storage';
+import type { Attachment } from '@/lib/types';
+import type { ChatIndex, Chunk, EmbeddingProvider, Passage } from './types';
+import { getChatIndexStore } from './store';
+import { chunkDocument } from './chunking';
+import { createOpenAIEmbeddingProvider } from './openai';
+import { createLocalEmbeddingProvider } from './local';
+
+export type { EmbeddingProvider, Passage, PassageSource } from './types';
+
+let provider: EmbeddingProvider | null = null;
+
+/**
+ * Returns the embedding provider selected by `EMBEDDING_PROVIDER`
+ * (`openai` or `local`). Defaults to OpenAI when its key is configured and
+ * to the local hashing embeddings otherwise.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    const driver = process.env.EMBEDDING_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'local');
+
+    if (driver === 'openai') {
+      provider = createOpenAIEmbeddingProvider();
+    } else {
+      provider = createLocalEmbeddingProvider();
+    }
+  }
+  return provider;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Reads, chunks and embeds one attachment; no chunks if it has no text.
+// Throws when the file can't be read so it is tried again later.
+async function chunkAttachment(
+  attachment: Attachment,
+  embedder: EmbeddingProvider,
+  context: UploadContext
+): Promise<Chunk[]> {
+  const file = await getStorageProvider().read(attachment.url, context);
+  if (!file) throw new Error(`Could not read ${attachment.url} from storage`);
+
+  const document = await extractDocument(file);
+  if (!document) return [];
+
+  const pieces = chunkDocument(document.text, { name: attachment.name, url: attachment.url });
+  if (pieces.length === 0) return [];
+
+  const embeddings = await embedder.embed(pieces.map(piece => piece.text));
+  return pieces.map((piece, i) => ({ id: uuidv4(), ...piece, embedding: embeddings[i] }));
+}
+
+/**
+ * Brings a chat's index up to date with the documents in its messages.
+ * Documents already indexed are skipped; an index built with another
+ * embedding provider is rebuilt. A file that fails to index is logged and
+ * tried again on the next search.
+ */
+async function syncChatIndex(chatId: string, context: UploadContext): Promise<ChatIndex | null> {
+  const chat = await getChat(chatId);
+  const documents = (chat?.messages || [])
+    .flatMap(message => message.experimental_attachments || [])
+    .filter(attachment => isExtractable(attachment.contentType));
+
+  const store = getChatIndexStore();
+  const embedder = getEmbeddingProvider();
+  const stored = await store.getIndex(chatId);
+  const index: ChatIndex = stored?.embedding === embedder.name
+    ? stored
+    : { embedding: embedder.name, sources: [], chunks: [] };
+
+  const pending = documents.filter((attachment, i) =>
+    !index.sources.includes(attachment.url) && documents.findIndex(a => a.url === attachment.url) === i);
+  if (pending.length === 0) return index.chunks.length > 0 ? index : null;
+
+  let changed = false;
+  for (const attachment of pending) {
+    try {
+      index.chunks.push(...await chunkAttachment(attachment, embedder, context));
+      index.sources.push(attachment.url);
+      changed = true;
+    } catch (error) {
+      console.error(`Failed to index ${attachment.name} for retrieval:`, error);
+    }
+  }
+
+  if (changed) await store.saveIndex(chatId, index);
+  return index;
+}
+
+/**
+ * The passages from a chat's documents most related to `query`, best
+ * first. Documents in the chat are indexed on first use. At most
+ * `RETRIEVAL_TOP_K` (4) passages are returned, none scoring below
+ * `RETRIEVAL_MIN_SCORE` (the provider's own threshold by default).
+ * Passages from `exclude`d attachment URLs, such as files sent in full
+ * with the message, are left out. Failures are logged and give no passages.
+ */
+export async function findRelevantPassages(
+  chatId: string,
+  query: string,
+  context: UploadContext,
+  { exclude = [] }: { exclude?: string[] } = {}
+): Promise<Passage[]> {
+  if (!query.trim()) return [];
+
+  try {
+    const index = await syncChatIndex(chatId, context);
+    const candidates = index?.chunks.filter(chunk => !exclude.includes(chunk.source.url)) || [];
+    if (candidates.length === 0) return [];
+
+    const embedder = getEmbeddingProvider();
+    const [vector] = await embedder.embed([query]);
+    const minScore = Number(process.env.RETRIEVAL_MIN_SCORE) || embedder.minScore;
+    const topK = Number(process.env.RETRIEVAL_TOP_K) || 4;
+
+    return candidates
+      .map(chunk => ({ source: chunk.source, text: chunk.text, score: cosineSimilarity(vector, chunk.embedding) }))
+      .filter(passage => passage.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  } catch (error) {
+    console.error('Failed to retrieve document passages:', error);
+    return [];
+  }
+}
+
+/**
+ * Passages as a block for the system prompt, numbered so the model can
+ * cite them as [1], [2] in the order they are listed as sources.
+ */
+export function formatPassages(passages: Passage[]): string {
+  const blocks = passages.map(({ source, text }, i) =>
+    `[${i + 1}] ${source.name}${source.page !== undefined ? `, page ${source.page}` : ''}:\n${text}`);
+  return `Passages from documents shared in this chat. Use them when they help answer, and cite each one you use as [n]:\n\n${blocks.join('\n\n')}`;
+}
+
+export async function deleteChatIndex(chatId: string): Promise<void> {
+  await getChatIndexStore().deleteIndex(chatId);
+}
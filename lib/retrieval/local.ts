@@ -0,0 +1,48 @@
+import { createHash } from 'crypto';
+import type { EmbeddingProvider } from './types';
+
+const DIMENSIONS = 512;
+
+// Common words that would make unrelated passages look alike
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'what', 'which', 'with',
+]);
+
+const tokenize = (text: string) =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(token => !STOP_WORDS.has(token));
+
+// Bucket and sign of a token, from a stable hash
+function hashToken(token: string): [number, number] {
+  const digest = createHash('md5').update(token).digest();
+  return [digest.readUInt32LE(0) % DIMENSIONS, digest[4] & 1 ? 1 : -1];
+}
+
+/**
+ * Offline stand-in for a real embedding model: each word is hashed into
+ * a fixed-size vector with a sublinear term-frequency weight, and the
+ * vector is normalized. It only matches shared words, but is
+ * deterministic and needs no service, which suits development and tests.
+ */
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+  return {
+    name: 'local-hashing',
+    minScore: 0.1,
+
+    async embed(texts) {
+      return texts.map(text => {
+        const counts = new Map<string, number>();
+        for (const token of tokenize(text)) counts.set(token, (counts.get(token) || 0) + 1);
+
+        const vector = new Array<number>(DIMENSIONS).fill(0);
+        counts.forEach((count, token) => {
+          const [index, sign] = hashToken(token);
+          vector[index] += sign * (1 + Math.log(count));
+        });
+
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+        return vector.map(value => value / norm);
+      });
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import { openai } from '@ai-sdk/openai';
+import { embedMany } from 'ai';
+import type { EmbeddingProvider } from './types';
+
+/**
+ * Embeddings from OpenAI. `EMBEDDING_MODEL` selects the model,
+ * `text-embedding-3-small` by default.
+ */
+export function createOpenAIEmbeddingProvider(): EmbeddingProvider {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY is not configured');
+  }
+  const model = process.env.EMBEDDING_MODEL || 'text-embedding-3-small';
+
+  return {
+    name: `openai:${model}`,
+    minScore: 0.3,
+
+    async embed(texts) {
+      const { embeddings } = await embedMany({ model: openai.embedding(model), values: texts });
+      return embeddings;
+    },
+  };
+}
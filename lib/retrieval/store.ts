@@ -0,0 +1,86 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { kv } from '@vercel/kv';
+import type { ChatIndex } from './types';
+
+export interface ChatIndexStore {
+  getIndex(chatId: string): Promise<ChatIndex | null>;
+  saveIndex(chatId: string, index: ChatIndex): Promise<void>;
+  deleteIndex(chatId: string): Promise<void>;
+}
+
+function createKVChatIndexStore(): ChatIndexStore {
+  return {
+    async getIndex(chatId) {
+      return (await kv.get<ChatIndex>(`retrieval:${chatId}`)) ?? null;
+    },
+
+    async saveIndex(chatId, index) {
+      await kv.set(`retrieval:${chatId}`, index);
+    },
+
+    async deleteIndex(chatId) {
+      await kv.del(`retrieval:${chatId}`);
+    },
+  };
+}
+
+function createMemoryChatIndexStore(): ChatIndexStore {
+  const indexes = new Map<string, ChatIndex>();
+
+  return {
+    async getIndex(chatId) {
+      return indexes.get(chatId) ?? null;
+    },
+
+    async saveIndex(chatId, index) {
+      indexes.set(chatId, index);
+    },
+
+    async deleteIndex(chatId) {
+      indexes.delete(chatId);
+    },
+  };
+}
+
+function createFileChatIndexStore(dir: string): ChatIndexStore {
+  const indexPath = (chatId: string) => path.join(dir, `${encodeURIComponent(chatId)}.json`);
+
+  return {
+    async getIndex(chatId) {
+      try {
+        return JSON.parse(await fs.readFile(indexPath(chatId), 'utf8')) as ChatIndex;
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async saveIndex(chatId, index) {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(indexPath(chatId), JSON.stringify(index), 'utf8');
+    },
+
+    async deleteIndex(chatId) {
+      await fs.rm(indexPath(chatId), { force: true });
+    },
+  };
+}
+
+let store: ChatIndexStore | null = null;
+
+// Uses the same backend selection as the chat store
+export function getChatIndexStore(): ChatIndexStore {
+  if (!store) {
+    const driver = process.env.CHAT_STORE || (process.env.KV_REST_API_URL ? 'kv' : 'file');
+
+    if (driver === 'kv') {
+      store = createKVChatIndexStore();
+    } else if (driver === 'memory') {
+      store = createMemoryChatIndexStore();
+    } else {
+      store = createFileChatIndexStore(process.env.RETRIEVAL_STORE_DIR || '.data/retrieval');
+    }
+  }
+  return store;
+}
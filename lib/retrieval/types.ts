@@ -0,0 +1,41 @@
+import type { MessageSource } from '@/lib/types';
+
+// Where a passage came from, so a reply can link back to the attachment
+export type PassageSource = MessageSource;
+
+// A piece of an uploaded document, stored with its embedding
+export type Chunk = {
+  id: string;
+  source: PassageSource;
+  text: string;
+  embedding: number[];
+};
+
+// A chunk found for a question, with its cosine similarity to it
+export type Passage = {
+  source: PassageSource;
+  text: string;
+  score: number;
+};
+
+/**
+ * The searchable chunks of one chat's documents. Vectors from different
+ * embedding providers can't be compared, so the index records which
+ * provider made them.
+ */
+export type ChatIndex = {
+  embedding: string;
+  // Attachment URLs already indexed
+  sources: string[];
+  chunks: Chunk[];
+};
+
+/**
+ * Turns text into vectors for similarity search. `minScore` is the
+ * similarity below which a passage counts as unrelated for this provider.
+ */
+export interface EmbeddingProvider {
+  name: string;
+  minScore: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
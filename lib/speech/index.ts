@@ -0,0 +1,26 @@
+import type { SpeechProvider } from './types';
+import { createOpenAISpeechProvider } from './openai';
+import { createLocalSpeechProvider } from './local';
+
+export type { SpeechAudio, SpeechProvider } from './types';
+export { lastSentenceEnd, splitSpeechText, toSpokenText } from './text';
+
+let provider: SpeechProvider | null = null;
+
+/**
+ * Returns the speech provider selected by `TTS_PROVIDER` (`openai` or
+ * `local`). Defaults to OpenAI when its key is configured and to the local
+ * adapter otherwise.
+ */
+export function getSpeechProvider(): SpeechProvider {
+  if (!provider) {
+    const driver = process.env.TTS_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'local');
+
+    if (driver === 'openai') {
+      provider = createOpenAISpeechProvider();
+    } else {
+      provider = createLocalSpeechProvider();
+    }
+  }
+  return provider;
+}
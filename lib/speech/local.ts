@@ -0,0 +1,85 @@
+import type { SpeechProvider } from './types';
+
+const SAMPLE_RATE = 16000;
+// Placeholder audio: one short tone per word, up to a limit
+const BLIP_SECONDS = 0.12;
+const GAP_SECONDS = 0.08;
+const MAX_BLIPS = 40;
+
+// A 16-bit mono WAV with a quiet tone for each word of `text`
+export function placeholderWav(text: string): Uint8Array {
+  const words = Math.min(Math.max(text.split(/\s+/).filter(Boolean).length, 1), MAX_BLIPS);
+  const blipSamples = Math.round(BLIP_SECONDS * SAMPLE_RATE);
+  const stepSamples = blipSamples + Math.round(GAP_SECONDS * SAMPLE_RATE);
+  const sampleCount = words * stepSamples;
+
+  const buffer = new ArrayBuffer(44 + sampleCount * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + sampleCount * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, sampleCount * 2, true);
+
+  for (let i = 0; i < sampleCount; i++) {
+    const position = i % stepSamples;
+    const value = position < blipSamples
+      ? Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE) * 0.2 * 32767
+      : 0;
+    view.setInt16(44 + i * 2, Math.round(value), true);
+  }
+
+  return new Uint8Array(buffer);
+}
+
+/**
+ * Offline speech for development. With `LOCAL_TTS_URL` set, text is sent
+ * to a server implementing OpenAI's `/v1/audio/speech` endpoint (such as
+ * Kokoro-FastAPI or openedai-speech). Without it, a placeholder tone is
+ * returned so playback can be tried without any speech model.
+ */
+export function createLocalSpeechProvider(): SpeechProvider {
+  const serverUrl = process.env.LOCAL_TTS_URL;
+
+  return {
+    name: 'local',
+
+    async synthesize(text) {
+      if (!serverUrl) {
+        return { contentType: 'audio/wav', data: placeholderWav(text) };
+      }
+
+      const response = await fetch(`${serverUrl.replace(/\/$/, '')}/v1/audio/speech`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: process.env.TTS_MODEL || 'tts-1',
+          voice: process.env.TTS_VOICE || 'alloy',
+          input: text,
+          response_format: 'mp3',
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Local TTS server error: ${response.status} ${response.statusText}`);
+      }
+
+      return {
+        contentType: response.headers.get('Content-Type') || 'audio/mpeg',
+        data: new Uint8Array(await response.arrayBuffer()),
+      };
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import { openai } from '@ai-sdk/openai';
+import { experimental_generateSpeech as generateSpeech } from 'ai';
+import type { SpeechProvider } from './types';
+
+/**
+ * Speaks with OpenAI's text-to-speech models. `TTS_MODEL` and `TTS_VOICE`
+ * select the model (`tts-1` by default) and voice (`alloy`).
+ */
+export function createOpenAISpeechProvider(): SpeechProvider {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY is not configured');
+  }
+
+  return {
+    name: 'openai',
+
+    async synthesize(text) {
+      const { audio } = await generateSpeech({
+        model: openai.speech(process.env.TTS_MODEL || 'tts-1'),
+        voice: process.env.TTS_VOICE || 'alloy',
+        outputFormat: 'mp3',
+        text,
+      });
+
+      return { contentType: audio.mimeType || 'audio/mpeg', data: audio.uint8Array };
+    },
+  };
+}
@@ -0,0 +1,55 @@
+// Helpers shared by the TTS route and the client's sentence queue
+
+// Sentence ends: terminal punctuation (plus closing quotes or brackets)
+// followed by whitespace, or a blank line between paragraphs
+const SENTENCE_END = /[.!?…]+["'”’)\]]*(?=\s)|\n\s*\n/g;
+
+/**
+ * Index just past the last complete sentence in `text`, or 0 if none has
+ * finished yet. Streamed replies are spoken up to this point while the
+ * rest is still arriving.
+ */
+export function lastSentenceEnd(text: string): number {
+  let end = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    end = match.index! + match[0].length;
+  }
+  return end;
+}
+
+/**
+ * Reduces a markdown reply to what should be read aloud: code blocks,
+ * images and URLs are dropped, links keep their text and formatting
+ * characters are removed.
+ */
+export function toSpokenText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/(\*\*|__|\*|_|~~)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Splits text into pieces of whole sentences no longer than `maxLength`,
+ * so a long reply starts playing sooner and stays under the provider's
+ * limit. A sentence longer than that is cut at its last space that fits.
+ */
+export function splitSpeechText(text: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxLength) {
+    const head = rest.slice(0, maxLength);
+    const end = lastSentenceEnd(head) || head.lastIndexOf(' ') + 1 || maxLength;
+    pieces.push(rest.slice(0, end));
+    rest = rest.slice(end);
+  }
+
+  return [...pieces, rest].filter(piece => toSpokenText(piece));
+}
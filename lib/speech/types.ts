@@ -0,0 +1,14 @@
+// Synthesized audio returned by a speech provider
+export type SpeechAudio = {
+  contentType: string;
+  data: Uint8Array;
+};
+
+/**
+ * Text-to-speech backend. Providers get plain text; markdown is stripped
+ * before it reaches them (see `toSpokenText`).
+ */
+export interface SpeechProvider {
+  name: string;
+  synthesize(text: string): Promise<SpeechAudio>;
+}
@@ -0,0 +1,71 @@
+import type { StorageProvider } from './types';
+
+// Hosts Discord serves webhook attachments from
+const DISCORD_CDN_HOSTS = ['cdn.discordapp.com', 'media.discordapp.net'];
+
+/**
+ * Stores uploads as Discord webhook attachments and links to the Discord
+ * CDN. See memory-bank/discord-upload-setup.md for setting up the webhook.
+ */
+export function createDiscordStorageProvider(): StorageProvider {
+  const discordWebhookUrl = process.env.DISCORD_WEBHOOK_URL;
+  if (!discordWebhookUrl) {
+    throw new Error('Discord webhook URL not configured');
+  }
+
+  return {
+    name: 'discord',
+
+    async put(file) {
+      // Create a new FormData object for the Discord API
+      const discordFormData = new FormData();
+      discordFormData.append('file', new Blob([file.data], { type: file.contentType }), file.name);
+
+      // Add optional message content
+      const payload = {
+        content: "File uploaded from chat",
+        username: "File Uploader"
+      };
+      discordFormData.append('payload_json', JSON.stringify(payload));
+
+      const response = await fetch(discordWebhookUrl, {
+        method: 'POST',
+        body: discordFormData,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Discord API error: ${response.status} ${response.statusText}`);
+      }
+
+      // Extract attachment URL from Discord response
+      const data = await response.json();
+      const url = data?.attachments?.[0]?.url;
+      if (!url) {
+        throw new Error('Discord response did not include an attachment URL');
+      }
+
+      return { name: file.name, contentType: file.contentType, url };
+    },
+
+    async read(url) {
+      let parsed: URL;
+      try {
+        parsed = new URL(url);
+      } catch {
+        return null;
+      }
+      if (parsed.protocol !== 'https:' || !DISCORD_CDN_HOSTS.includes(parsed.hostname)) return null;
+
+      const response = await fetch(parsed, { redirect: 'error' });
+      if (!response.ok) {
+        throw new Error(`Discord CDN error: ${response.status} ${response.statusText}`);
+      }
+
+      return {
+        name: decodeURIComponent(parsed.pathname.split('/').pop() || 'file'),
+        contentType: response.headers.get('Content-Type') || 'application/octet-stream',
+        data: new Uint8Array(await response.arrayBuffer()),
+      };
+    },
+  };
+}
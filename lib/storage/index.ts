@@ -0,0 +1,31 @@
+import type { StorageProvider } from './types';
+import { createLocalStorageProvider } from './local';
+import { createS3StorageProvider } from './s3';
+import { createDiscordStorageProvider } from './discord';
+
+export type { StorageProvider, UploadContext, UploadFile } from './types';
+export { readLocalFile } from './local';
+export * from './upload-sessions';
+export { fileRejectedResponse } from './responses';
+
+let provider: StorageProvider | null = null;
+
+/**
+ * Returns the upload storage provider selected by `UPLOAD_STORAGE`
+ * (`local`, `s3` or `discord`). Defaults to Discord when its webhook is
+ * configured, matching the original setup, and to local disk otherwise.
+ */
+export function getStorageProvider(): StorageProvider {
+  if (!provider) {
+    const driver = process.env.UPLOAD_STORAGE || (process.env.DISCORD_WEBHOOK_URL ? 'discord' : 'local');
+
+    if (driver === 's3') {
+      provider = createS3StorageProvider();
+    } else if (driver === 'discord') {
+      provider = createDiscordStorageProvider();
+    } else {
+      provider = createLocalStorageProvider();
+    }
+  }
+  return provider;
+}
@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { StorageProvider } from './types';
+
+type StoredFileMeta = {
+  name: string;
+  contentType: string;
+};
+
+const getUploadDir = () => process.env.UPLOAD_DIR || '.data/uploads';
+
+/**
+ * Stores uploads on local disk. Files are served back by the
+ * `/api/files/[id]` route, so this only suits single-server setups.
+ */
+export function createLocalStorageProvider(): StorageProvider {
+  return {
+    name: 'local',
+
+    async put(file, { origin }) {
+      const dir = getUploadDir();
+      const id = uuidv4();
+
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, id), file.data);
+      await fs.writeFile(
+        path.join(dir, `${id}.json`),
+        JSON.stringify({ name: file.name, contentType: file.contentType } satisfies StoredFileMeta)
+      );
+
+      const baseUrl = process.env.UPLOAD_PUBLIC_URL || origin;
+      return {
+        name: file.name,
+        contentType: file.contentType,
+        url: `${baseUrl}/api/files/${id}`,
+      };
+    },
+
+    async read(url, { origin }) {
+      const baseUrl = process.env.UPLOAD_PUBLIC_URL || origin;
+      const prefix = `${baseUrl}/api/files/`;
+      if (!url.startsWith(prefix)) return null;
+
+      const file = await readLocalFile(url.slice(prefix.length));
+      return file && { name: file.name, contentType: file.contentType, data: new Uint8Array(file.data) };
+    },
+  };
+}
+
+/**
+ * Reads a file written by the local provider. Returns null for unknown
+ * or malformed ids.
+ */
+export async function readLocalFile(id: string): Promise<(StoredFileMeta & { data: Buffer }) | null> {
+  // Ids are uuids; anything else could escape the upload directory
+  if (!/^[0-9a-f-]{36}$/i.test(id)) return null;
+
+  const dir = getUploadDir();
+  try {
+    const meta: StoredFileMeta = JSON.parse(await fs.readFile(path.join(dir, `${id}.json`), 'utf8'));
+    const data = await fs.readFile(path.join(dir, id));
+    return { ...meta, data };
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+}
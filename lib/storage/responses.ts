@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import type { FileValidationError } from '@/lib/upload-policy';
+
+// Structured rejection the composer shows the same way as client-side errors
+export function fileRejectedResponse(error: FileValidationError) {
+  return NextResponse.json(
+    { error: error.message, code: error.code, file: error.file },
+    { status: error.code === 'file_too_large' ? 413 : 415 }
+  );
+}
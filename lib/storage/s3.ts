@@ -0,0 +1,69 @@
+import { GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { v4 as uuidv4 } from 'uuid';
+import type { StorageProvider } from './types';
+
+/**
+ * Stores uploads in an S3-compatible bucket. Setting `S3_ENDPOINT` switches
+ * to path-style addressing, which is what MinIO and most self-hosted
+ * S3 servers expect.
+ */
+export function createS3StorageProvider(): StorageProvider {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error('S3_BUCKET is not configured');
+  }
+
+  const region = process.env.S3_REGION || 'us-east-1';
+  const endpoint = process.env.S3_ENDPOINT;
+  const client = new S3Client({
+    region,
+    endpoint,
+    forcePathStyle: Boolean(endpoint),
+    ...(process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY && {
+      credentials: {
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      },
+    }),
+  });
+
+  const publicBaseUrl =
+    process.env.S3_PUBLIC_URL ||
+    (endpoint ? `${endpoint.replace(/\/$/, '')}/${bucket}` : `https://${bucket}.s3.${region}.amazonaws.com`);
+
+  return {
+    name: 's3',
+
+    async put(file) {
+      const key = `uploads/${uuidv4()}/${encodeURIComponent(file.name)}`;
+
+      await client.send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: file.data,
+        ContentType: file.contentType,
+      }));
+
+      return {
+        name: file.name,
+        contentType: file.contentType,
+        url: `${publicBaseUrl}/${key}`,
+      };
+    },
+
+    async read(url) {
+      const prefix = `${publicBaseUrl}/`;
+      if (!url.startsWith(prefix)) return null;
+
+      const key = url.slice(prefix.length);
+      const object = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      if (!object.Body) return null;
+
+      return {
+        name: decodeURIComponent(key.split('/').pop() || key),
+        contentType: object.ContentType || 'application/octet-stream',
+        data: await object.Body.transformToByteArray(),
+      };
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import type { Attachment } from '@/lib/types';
+
+// A file received by the upload route, ready to hand to a provider
+export type UploadFile = {
+  name: string;
+  contentType: string;
+  data: Uint8Array;
+};
+
+export type UploadContext = {
+  // Origin of the incoming request, used to build URLs for self-hosted files
+  origin: string;
+};
+
+/**
+ * Destination for uploaded attachments. Every provider returns the same
+ * `{ name, contentType, url }` shape the chat UI renders. `read` fetches a
+ * file back by the URL `put` gave out, and returns null for any URL the
+ * provider did not issue, so server code never fetches arbitrary URLs.
+ */
+export interface StorageProvider {
+  name: string;
+  put(file: UploadFile, context: UploadContext): Promise<Attachment>;
+  read(url: string, context: UploadContext): Promise<UploadFile | null>;
+}
@@ -0,0 +1,168 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { UPLOAD_CHUNK_SIZE } from '@/lib/upload-policy';
+
+export type UploadSession = {
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  // Indexes of the parts stored so far
+  received: number[];
+  createdAt: number;
+};
+
+/*
+ * Chunked uploads are staged on local disk until they are completed, so
+ * every part of a session must reach the same server instance.
+ */
+const getSessionDir = () => process.env.UPLOAD_SESSION_DIR || '.data/upload-sessions';
+
+// Sessions not completed within this many hours are removed with their parts
+const getSessionTtl = () => (Number(process.env.UPLOAD_SESSION_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+const isSessionId = (id: string) => /^[0-9a-f-]{36}$/i.test(id);
+
+const sessionPath = (id: string, file: string) => path.join(getSessionDir(), id, file);
+
+async function readParts(id: string): Promise<number[]> {
+  const files = await fs.readdir(path.join(getSessionDir(), id));
+  return files
+    .filter(file => file.startsWith('part-') && !file.endsWith('.tmp'))
+    .map(file => Number(file.slice(5)))
+    .sort((a, b) => a - b);
+}
+
+async function readMeta(id: string): Promise<Omit<UploadSession, 'received'>> {
+  return JSON.parse(await fs.readFile(sessionPath(id, 'meta.json'), 'utf8'));
+}
+
+const isExpired = (meta: { createdAt: number }) => Date.now() - meta.createdAt > getSessionTtl();
+
+// Removes abandoned sessions; run whenever a new one starts
+async function removeExpiredSessions(): Promise<void> {
+  const ids = await fs.readdir(getSessionDir()).catch(() => [] as string[]);
+  for (const id of ids.filter(isSessionId)) {
+    const meta = await readMeta(id).catch(() => null);
+    // A session without metadata is left over from a failed create
+    if (!meta || isExpired(meta)) await deleteUploadSession(id);
+  }
+}
+
+export async function createUploadSession(file: { name: string; contentType: string; size: number }): Promise<UploadSession> {
+  await removeExpiredSessions().catch(error => {
+    console.error('Failed to remove expired upload sessions:', error);
+  });
+
+  const id = uuidv4();
+  const session: UploadSession = {
+    id,
+    ...file,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    totalChunks: Math.max(1, Math.ceil(file.size / UPLOAD_CHUNK_SIZE)),
+    received: [],
+    createdAt: Date.now(),
+  };
+
+  await fs.mkdir(path.join(getSessionDir(), id), { recursive: true });
+  const { received, ...meta } = session;
+  await fs.writeFile(sessionPath(id, 'meta.json'), JSON.stringify(meta));
+  return session;
+}
+
+/**
+ * Loads a session with the list of parts received so far, which is what
+ * a client needs to resume an interrupted upload. Expired sessions are
+ * deleted and reported as missing.
+ */
+export async function getUploadSession(id: string): Promise<UploadSession | null> {
+  if (!isSessionId(id)) return null;
+
+  try {
+    const meta = await readMeta(id);
+    if (isExpired(meta)) {
+      await deleteUploadSession(id);
+      return null;
+    }
+    return { ...meta, received: await readParts(id) };
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Length in bytes part `index` must have: one chunk, except for the last
+ * part, which holds the rest. Throws for indexes outside the session.
+ */
+export function getPartSize(session: UploadSession, index: number): number {
+  if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+    throw new RangeError(`Part ${index} is out of range`);
+  }
+  return index === session.totalChunks - 1
+    ? session.size - index * session.chunkSize
+    : session.chunkSize;
+}
+
+/**
+ * Reads a request body of at most `limit` bytes, giving up as soon as it
+ * grows past that so an oversized part is never held in memory.
+ */
+export async function readPartBody(body: ReadableStream<Uint8Array> | null, limit: number): Promise<Uint8Array> {
+  const data = new Uint8Array(limit);
+  let length = 0;
+  if (!body) return data.subarray(0, 0);
+
+  const reader = body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return data.subarray(0, length);
+    if (length + value.byteLength > limit) {
+      await reader.cancel();
+      throw new RangeError(`Part is larger than ${limit} bytes`);
+    }
+    data.set(value, length);
+    length += value.byteLength;
+  }
+}
+
+/**
+ * Stores one part. Every part but the last must be exactly one chunk long,
+ * and re-sending a part simply overwrites it.
+ */
+export async function writeUploadPart(session: UploadSession, index: number, data: Uint8Array): Promise<void> {
+  const expected = getPartSize(session, index);
+  if (data.byteLength !== expected) {
+    throw new RangeError(`Part ${index} should be ${expected} bytes, got ${data.byteLength}`);
+  }
+
+  // Write then rename so a dropped connection never leaves a partial part behind
+  const target = sessionPath(session.id, `part-${index}`);
+  await fs.writeFile(`${target}.tmp`, data);
+  await fs.rename(`${target}.tmp`, target);
+}
+
+/**
+ * Joins all parts into the final file. Throws if any part is missing.
+ */
+export async function assembleUploadSession(session: UploadSession): Promise<Uint8Array> {
+  const missing = Array.from({ length: session.totalChunks }, (_, i) => i)
+    .filter(i => !session.received.includes(i));
+  if (missing.length > 0) {
+    throw new RangeError(`Missing parts: ${missing.join(', ')}`);
+  }
+
+  const data = new Uint8Array(session.size);
+  for (let i = 0; i < session.totalChunks; i++) {
+    data.set(await fs.readFile(sessionPath(session.id, `part-${i}`)), i * session.chunkSize);
+  }
+  return data;
+}
+
+export async function deleteUploadSession(id: string): Promise<void> {
+  if (!isSessionId(id)) return;
+  await fs.rm(path.join(getSessionDir(), id), { recursive: true, force: true });
+}
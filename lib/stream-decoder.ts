@@ -0,0 +1,146 @@
+// Decodes the text of a streamed chat reply. Replies come in three shapes:
+// the AI SDK data stream (`0:"text"` lines) from `toDataStreamResponse`,
+// OpenAI-style SSE (`data: {choices:[{delta}]}`) passed through from n8n,
+// and plain text.
+
+export type StreamFormat = 'data-stream' | 'sse' | 'text';
+
+export type StreamDecoder = {
+  // Returns the text carried by this chunk; partial lines wait for the next one
+  push(chunk: string): string;
+  // Returns the text of whatever was left in the buffer
+  end(): string;
+};
+
+// Header set by the AI SDK on data stream responses
+const DATA_STREAM_HEADER = 'X-Vercel-AI-Data-Stream';
+
+/**
+ * Picks the stream format from the response headers. Returns null when the
+ * headers don't say, so the body has to be sniffed.
+ */
+export function detectStreamFormat(headers: Headers): StreamFormat | null {
+  if (headers.get(DATA_STREAM_HEADER)) return 'data-stream';
+  if ((headers.get('Content-Type') || '').includes('text/event-stream')) return 'sse';
+  return null;
+}
+
+// Parses a data stream line into its type code and JSON value
+function parseDataStreamLine(line: string): { code: string; value: unknown } | null {
+  const match = /^([0-9a-z]):(.*)$/.exec(line);
+  if (!match) return null;
+  try {
+    return { code: match[1], value: JSON.parse(match[2]) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Guesses the format from the start of a body whose headers didn't say,
+ * e.g. a data stream relayed through a proxy that dropped the header.
+ * Needs at least one complete line to recognise a data stream.
+ */
+export function sniffStreamFormat(head: string): StreamFormat {
+  const firstLine = head.split('\n')[0];
+  if (firstLine.startsWith('data:') || firstLine.startsWith('event:')) return 'sse';
+  if (head.includes('\n') && parseDataStreamLine(firstLine)) return 'data-stream';
+  return 'text';
+}
+
+// Text carried by one line of the given format; throws on stream errors
+function decodeLine(format: Exclude<StreamFormat, 'text'>, line: string): string {
+  if (format === 'data-stream') {
+    const part = parseDataStreamLine(line);
+    // '0' is a text part and '3' an error; the rest is metadata such as
+    // message ids, tool calls and usage, which the bubble doesn't show
+    if (part?.code === '0' && typeof part.value === 'string') return part.value;
+    if (part?.code === '3') throw new Error(String(part.value || 'The reply stream failed'));
+    return '';
+  }
+
+  if (!line.startsWith('data:')) return '';
+  const payload = line.slice(5).trim();
+  if (!payload || payload === '[DONE]') return '';
+  try {
+    const data = JSON.parse(payload);
+    return data.choices?.[0]?.delta?.content ?? '';
+  } catch {
+    // Ignore malformed lines
+    return '';
+  }
+}
+
+/**
+ * Creates a decoder for one stream. Lines are buffered across chunk
+ * boundaries, so a JSON value split between two reads is parsed whole.
+ */
+export function createStreamDecoder(format: StreamFormat): StreamDecoder {
+  if (format === 'text') {
+    return { push: chunk => chunk, end: () => '' };
+  }
+
+  let buffer = '';
+
+  const decodeLines = (lines: string[]) =>
+    lines.map(line => decodeLine(format, line.replace(/\r$/, ''))).join('');
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      return decodeLines(lines);
+    },
+    end() {
+      const rest = buffer;
+      buffer = '';
+      return decodeLines([rest]);
+    },
+  };
+}
+
+/**
+ * Reads a streamed reply to the end, calling `onText` with the text so far
+ * each time more arrives. Resolves with the full text.
+ */
+export async function readTextStream(
+  response: Response,
+  onText: (text: string) => void = () => {}
+): Promise<string> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('Response body cannot be read as stream');
+
+  const textDecoder = new TextDecoder();
+  let format = detectStreamFormat(response.headers);
+  let decoder = format ? createStreamDecoder(format) : null;
+  // Held back until the format can be sniffed
+  let head = '';
+  let text = '';
+
+  const append = (delta: string) => {
+    if (!delta) return;
+    text += delta;
+    onText(text);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    const chunk = done ? textDecoder.decode() : textDecoder.decode(value, { stream: true });
+
+    if (!decoder) {
+      head += chunk;
+      if (!done && !head.includes('\n') && head.length < 64) continue;
+      format = sniffStreamFormat(head);
+      decoder = createStreamDecoder(format);
+      append(decoder.push(head));
+    } else {
+      append(decoder.push(chunk));
+    }
+
+    if (done) break;
+  }
+
+  append(decoder.end());
+  return text;
+}
@@ -0,0 +1,91 @@
+import type { Tool, ToolParameter } from './types';
+
+const seed: ToolParameter = { id: 'seed', label: 'Seed', type: 'number', min: 0, max: 2 ** 32 - 1, integer: true };
+
+const aspectRatio = (defaultValue: string, values: string[]): ToolParameter => ({
+  id: 'aspectRatio',
+  label: 'Aspect ratio',
+  type: 'select',
+  options: values.map(value => ({ value, label: value })),
+  default: defaultValue,
+});
+
+// Tools in the order the Tools menu lists them
+export const TOOLS: Tool[] = [
+  {
+    id: 'image',
+    label: 'Image Generation',
+    icon: 'image',
+    prefix: '/image',
+    async: false,
+    parameters: [
+      aspectRatio('1:1', ['1:1', '16:9', '9:16', '4:3', '3:4']),
+      {
+        id: 'style',
+        label: 'Style',
+        type: 'select',
+        options: [
+          { value: 'photographic', label: 'Photographic' },
+          { value: 'cinematic', label: 'Cinematic' },
+          { value: 'anime', label: 'Anime' },
+          { value: 'digital-art', label: 'Digital art' },
+        ],
+      },
+      seed,
+    ],
+  },
+  {
+    id: 'video',
+    label: 'Video Generation',
+    icon: 'video',
+    prefix: '/video',
+    async: true,
+    parameters: [
+      aspectRatio('16:9', ['16:9', '9:16', '1:1']),
+      { id: 'duration', label: 'Duration (s)', type: 'number', min: 2, max: 10, integer: true, default: 5 },
+      seed,
+    ],
+  },
+  {
+    id: 'audio',
+    label: 'Audio Generation',
+    icon: 'audio',
+    prefix: '/audio',
+    async: false,
+    parameters: [
+      { id: 'duration', label: 'Duration (s)', type: 'number', min: 5, max: 60, integer: true, default: 15 },
+      {
+        id: 'style',
+        label: 'Style',
+        type: 'select',
+        options: [
+          { value: 'ambient', label: 'Ambient' },
+          { value: 'cinematic', label: 'Cinematic' },
+          { value: 'electronic', label: 'Electronic' },
+          { value: 'lo-fi', label: 'Lo-fi' },
+        ],
+      },
+      seed,
+    ],
+  },
+  {
+    id: 'voice',
+    label: 'Voice Chat',
+    icon: 'voice',
+    // n8n handles voice chat with its audio workflow
+    prefix: '/audio',
+    async: false,
+    parameters: [
+      {
+        id: 'voice',
+        label: 'Voice',
+        type: 'select',
+        options: ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'].map(value => ({
+          value,
+          label: value[0].toUpperCase() + value.slice(1),
+        })),
+        default: 'alloy',
+      },
+    ],
+  },
+];
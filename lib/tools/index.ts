@@ -0,0 +1,67 @@
+import type { Tool, ToolParams } from './types';
+import { TOOLS } from './config';
+
+export type { Tool, ToolIconName, ToolParameter, ToolParams } from './types';
+
+export function getTool(id: string | null | undefined): Tool | null {
+  return TOOLS.find(tool => tool.id === id) || null;
+}
+
+/**
+ * The tool manifest served by `/api/tools`. `JOB_ASYNC_TOOLS`, a
+ * comma-separated list of tool ids, overrides which tools run as jobs.
+ */
+export function listTools(): Tool[] {
+  const asyncOverride = process.env.JOB_ASYNC_TOOLS?.split(',').map(id => id.trim());
+  return TOOLS.map(tool => (asyncOverride ? { ...tool, async: asyncOverride.includes(tool.id) } : tool));
+}
+
+export type ToolParamsResult =
+  | { ok: true; params: ToolParams }
+  | { ok: false; error: string };
+
+/**
+ * Checks submitted values against a tool's parameters and fills in
+ * defaults. Unknown keys are dropped; empty values count as unset.
+ */
+export function parseToolParams(tool: Tool, input: unknown): ToolParamsResult {
+  const values = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+  const params: ToolParams = {};
+
+  for (const parameter of tool.parameters) {
+    const value = values[parameter.id];
+
+    if (value === undefined || value === null || value === '') {
+      if (parameter.default !== undefined) params[parameter.id] = parameter.default;
+      continue;
+    }
+
+    if (parameter.type === 'select') {
+      if (!parameter.options.some(option => option.value === value)) {
+        return { ok: false, error: `${parameter.label} must be one of ${parameter.options.map(o => o.value).join(', ')}` };
+      }
+      params[parameter.id] = value as string;
+    } else if (parameter.type === 'number') {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (
+        !Number.isFinite(number) ||
+        (parameter.integer && !Number.isInteger(number)) ||
+        (parameter.min !== undefined && number < parameter.min) ||
+        (parameter.max !== undefined && number > parameter.max)
+      ) {
+        return { ok: false, error: `${parameter.label} must be a${parameter.integer ? 'n integer' : ' number'} between ${parameter.min ?? '-∞'} and ${parameter.max ?? '∞'}` };
+      }
+      params[parameter.id] = number;
+    } else {
+      if (typeof value !== 'string') {
+        return { ok: false, error: `${parameter.label} must be text` };
+      }
+      if (parameter.maxLength !== undefined && value.length > parameter.maxLength) {
+        return { ok: false, error: `${parameter.label} must be at most ${parameter.maxLength} characters` };
+      }
+      params[parameter.id] = value;
+    }
+  }
+
+  return { ok: true, params };
+}
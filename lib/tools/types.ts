@@ -0,0 +1,29 @@
+// Icons available to tools; drawn by `ToolIcon` in components/icons
+export type ToolIconName = 'image' | 'video' | 'audio' | 'voice';
+
+type BaseParameter = {
+  id: string;
+  label: string;
+};
+
+/**
+ * A setting the Tools menu shows for a tool. Values the user leaves empty
+ * fall back to `default`, and are left out when there is none.
+ */
+export type ToolParameter =
+  | (BaseParameter & { type: 'select'; options: { value: string; label: string }[]; default?: string })
+  | (BaseParameter & { type: 'number'; min?: number; max?: number; step?: number; integer?: boolean; default?: number })
+  | (BaseParameter & { type: 'text'; maxLength?: number; default?: string });
+
+export type ToolParams = Record<string, string | number>;
+
+export type Tool = {
+  id: string;
+  label: string;
+  icon: ToolIconName;
+  // Sent to n8n in front of the message, e.g. `/image`
+  prefix: string;
+  // Whether requests start a long-running job instead of waiting for the answer
+  async: boolean;
+  parameters: ToolParameter[];
+};
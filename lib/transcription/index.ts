@@ -0,0 +1,54 @@
+import { getStorageProvider, type UploadContext } from '@/lib/storage';
+import type { Attachment } from '@/lib/types';
+import type { TranscriptionProvider } from './types';
+import { createOpenAITranscriptionProvider } from './openai';
+import { createLocalTranscriptionProvider } from './local';
+
+export type { AudioInput, Transcript, TranscriptionProvider } from './types';
+
+let provider: TranscriptionProvider | null = null;
+
+/**
+ * Returns the transcription provider selected by `TRANSCRIPTION_PROVIDER`
+ * (`openai` or `local`). Defaults to OpenAI when its key is configured and
+ * to the local adapter otherwise.
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (!provider) {
+    const driver = process.env.TRANSCRIPTION_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'local');
+
+    if (driver === 'openai') {
+      provider = createOpenAITranscriptionProvider();
+    } else {
+      provider = createLocalTranscriptionProvider();
+    }
+  }
+  return provider;
+}
+
+export const isAudioAttachment = (attachment: Attachment) => attachment.contentType?.startsWith('audio/');
+
+/**
+ * Adds transcripts to audio attachments that don't have one yet. Audio is
+ * read back through the storage provider, so only files uploaded here are
+ * transcribed; anything that fails is left as it was.
+ */
+export async function transcribeAttachments(
+  attachments: Attachment[],
+  context: UploadContext
+): Promise<Attachment[]> {
+  return Promise.all(attachments.map(async attachment => {
+    if (!isAudioAttachment(attachment) || attachment.transcript !== undefined) return attachment;
+
+    try {
+      const audio = await getStorageProvider().read(attachment.url, context);
+      if (!audio) return attachment;
+
+      const { text } = await getTranscriptionProvider().transcribe(audio);
+      return { ...attachment, transcript: text };
+    } catch (error) {
+      console.error(`Failed to transcribe ${attachment.name}:`, error);
+      return attachment;
+    }
+  }));
+}
@@ -0,0 +1,38 @@
+import type { TranscriptionProvider } from './types';
+
+/**
+ * Offline transcription for development. With `WHISPER_CPP_URL` set, audio
+ * is sent to a whisper.cpp server (`whisper-server`), whose `/inference`
+ * endpoint takes the same multipart upload as OpenAI's. Without it, a
+ * placeholder transcript is returned so the rest of the flow can be tried
+ * without any speech model.
+ */
+export function createLocalTranscriptionProvider(): TranscriptionProvider {
+  const serverUrl = process.env.WHISPER_CPP_URL;
+
+  return {
+    name: 'local',
+
+    async transcribe(audio) {
+      if (!serverUrl) {
+        return { text: `[Transcript placeholder for ${audio.name}]` };
+      }
+
+      const formData = new FormData();
+      formData.append('file', new Blob([audio.data], { type: audio.contentType }), audio.name);
+      formData.append('response_format', 'json');
+
+      const response = await fetch(`${serverUrl.replace(/\/$/, '')}/inference`, {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        throw new Error(`whisper.cpp server error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return { text: String(data.text ?? '').trim() };
+    },
+  };
+}
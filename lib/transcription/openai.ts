@@ -0,0 +1,26 @@
+import { openai } from '@ai-sdk/openai';
+import { experimental_transcribe as transcribe } from 'ai';
+import type { TranscriptionProvider } from './types';
+
+/**
+ * Transcribes with OpenAI's speech-to-text models, Whisper by default.
+ * `TRANSCRIPTION_MODEL` selects another one, e.g. `gpt-4o-mini-transcribe`.
+ */
+export function createOpenAITranscriptionProvider(): TranscriptionProvider {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY is not configured');
+  }
+
+  return {
+    name: 'openai',
+
+    async transcribe(audio) {
+      const result = await transcribe({
+        model: openai.transcription(process.env.TRANSCRIPTION_MODEL || 'whisper-1'),
+        audio: audio.data,
+      });
+
+      return { text: result.text.trim(), ...(result.language && { language: result.language }) };
+    },
+  };
+}
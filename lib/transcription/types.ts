@@ -0,0 +1,21 @@
+// Audio handed to a transcription provider
+export type AudioInput = {
+  name: string;
+  contentType: string;
+  data: Uint8Array;
+};
+
+export type Transcript = {
+  text: string;
+  // ISO-639-1 code, when the provider detects it
+  language?: string;
+};
+
+/**
+ * Speech-to-text backend. Providers take the raw audio rather than a URL,
+ * so they never fetch anything on the caller's behalf.
+ */
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(audio: AudioInput): Promise<Transcript>;
+}
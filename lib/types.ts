@@ -0,0 +1,85 @@
+// Shared shapes used by both the chat UI and the API routes
+
+export type Attachment = {
+  name: string;
+  contentType: string;
+  url: string;
+  // What was said in an audio attachment, once transcribed
+  transcript?: string;
+};
+
+// A document passage a reply drew on; cited in the reply as [n] for the nth source
+export type MessageSource = {
+  name: string;
+  url: string;
+  // Page of a PDF the passage is on
+  page?: number;
+};
+
+export type MessageStatus = 'pending' | 'completed' | 'failed' | 'cancelled' | 'stopped' | 'blocked';
+
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export type Message = {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  // Message this one answers or follows; null for the first message (see lib/chat/tree)
+  parentId?: string | null;
+  status?: MessageStatus;
+  // Long-running job behind a pending message, and its progress from 0 to 1
+  jobId?: string;
+  progress?: number;
+  experimental_attachments?: Attachment[];
+  // Set on the refusal that replaces blocked content in a moderated mode
+  moderation?: {
+    // Whether the prompt or the reply was blocked
+    stage: 'input' | 'output';
+    categories: string[];
+  };
+  // Passages from the chat's documents given to the model (see lib/retrieval)
+  sources?: MessageSource[];
+  createdAt?: number;
+};
+
+// Rolling summary of turns that no longer fit in the context window
+export type ContextSummary = {
+  text: string;
+  // Number of leading messages the summary covers
+  messageCount: number;
+  // Id of the last message covered, so a summary of another branch is not reused
+  throughId?: string;
+};
+
+// Pushed to open tabs when a long-running job makes progress or settles
+export type JobEvent = {
+  jobId: string;
+  messageId: string;
+  status: JobStatus;
+  progress?: number;
+  // The final message, once the job has settled
+  message?: Message;
+};
+
+export type Chat = {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  // Every message of every branch; `activeLeafId` ends the branch shown
+  messages: Message[];
+  activeLeafId?: string;
+  activeMode?: string;
+  activeTool?: string | null;
+  // Model picked for this chat from the registry (see lib/models)
+  activeModel?: string;
+  contextSummary?: ContextSummary;
+};
+
+// Lightweight listing entry for the chat history sidebar
+export type ChatSummary = {
+  id: string;
+  title: string;
+  preview: string;
+  updatedAt: number;
+};
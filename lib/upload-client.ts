@@ -0,0 +1,135 @@
+import type { Attachment } from '@/lib/types';
+import type { UploadSession } from '@/lib/storage/upload-sessions';
+import { UPLOAD_CHUNK_SIZE } from '@/lib/upload-policy';
+
+// Browser side of the upload routes: single requests for small files and
+// the resumable chunked protocol for anything larger than one chunk.
+
+const MAX_PART_ATTEMPTS = 5;
+
+// Thrown when the server rejects a file under the upload policy; the
+// message is the same one the composer shows for client-side rejections.
+export class FileRejectedError extends Error {}
+
+type XhrResult = { status: number; data: any };
+
+// XMLHttpRequest rather than fetch, since only XHR reports upload progress
+function sendRequest(
+  method: string,
+  url: string,
+  body?: XMLHttpRequestBodyInit,
+  onProgress?: (loaded: number) => void
+): Promise<XhrResult> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    xhr.responseType = 'json';
+    if (onProgress) {
+      xhr.upload.onprogress = (e) => onProgress(e.loaded);
+    }
+    xhr.onload = () => resolve({ status: xhr.status, data: xhr.response });
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+    xhr.ontimeout = () => reject(new Error('Upload timed out'));
+    xhr.send(body);
+  });
+}
+
+function checkResponse({ status, data }: XhrResult, fallback: string) {
+  if (status >= 200 && status < 300) return data;
+  if (data?.code) throw new FileRejectedError(data.error);
+  throw new Error(data?.error || `${fallback}: ${status}`);
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Key under which an unfinished session is remembered for resuming
+const resumeKey = (file: File) => `upload:${file.name}:${file.size}:${file.lastModified}`;
+
+async function openSession(file: File): Promise<UploadSession> {
+  const existingId = localStorage.getItem(resumeKey(file));
+  if (existingId) {
+    const result = await sendRequest('GET', `/api/upload/sessions/${existingId}`);
+    if (result.status === 200) return result.data;
+    localStorage.removeItem(resumeKey(file));
+  }
+
+  const session: UploadSession = checkResponse(
+    await sendRequest('POST', '/api/upload/sessions', JSON.stringify({
+      name: file.name,
+      contentType: file.type,
+      size: file.size,
+    })),
+    'Failed to start upload'
+  );
+  localStorage.setItem(resumeKey(file), session.id);
+  return session;
+}
+
+// Sends one part, retrying with exponential backoff on network and server errors
+async function uploadPart(session: UploadSession, file: File, index: number, onProgress: (loaded: number) => void) {
+  const start = index * session.chunkSize;
+  const chunk = file.slice(start, Math.min(start + session.chunkSize, file.size));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await sendRequest('PUT', `/api/upload/sessions/${session.id}/parts/${index}`, chunk, onProgress);
+      if (result.status < 500) return checkResponse(result, 'Upload part failed');
+      throw new Error(`Upload part failed: ${result.status}`);
+    } catch (error) {
+      if (error instanceof FileRejectedError || attempt >= MAX_PART_ATTEMPTS) throw error;
+      onProgress(0);
+      await wait(1000 * 2 ** (attempt - 1));
+    }
+  }
+}
+
+async function uploadChunked(file: File, onProgress: (fraction: number) => void): Promise<Attachment> {
+  const session = await openSession(file);
+
+  // Parts stored by an earlier, interrupted attempt count as done
+  const partSize = (i: number) => Math.min(session.chunkSize, file.size - i * session.chunkSize);
+  let uploadedBytes = session.received.reduce((sum, i) => sum + partSize(i), 0);
+  onProgress(uploadedBytes / file.size);
+
+  for (let i = 0; i < session.totalChunks; i++) {
+    if (session.received.includes(i)) continue;
+    await uploadPart(session, file, i, (loaded) => onProgress((uploadedBytes + loaded) / file.size));
+    uploadedBytes += partSize(i);
+  }
+
+  try {
+    const attachment: Attachment = checkResponse(
+      await sendRequest('POST', `/api/upload/sessions/${session.id}/complete`),
+      'Failed to complete upload'
+    );
+    localStorage.removeItem(resumeKey(file));
+    return attachment;
+  } catch (error) {
+    // A rejected file's session is discarded by the server, so don't resume it
+    if (error instanceof FileRejectedError) localStorage.removeItem(resumeKey(file));
+    throw error;
+  }
+}
+
+/**
+ * Uploads a file and reports progress as a fraction between 0 and 1.
+ * Files larger than one chunk use the chunked protocol and pick up where
+ * a previous attempt for the same file left off.
+ */
+export async function uploadFile(file: File, onProgress: (fraction: number) => void): Promise<Attachment> {
+  if (file.size > UPLOAD_CHUNK_SIZE) {
+    return uploadChunked(file, onProgress);
+  }
+
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const attachment: Attachment = checkResponse(
+    await sendRequest('POST', '/api/upload', formData, (loaded) => onProgress(loaded / file.size)),
+    'Upload failed'
+  );
+  if (!attachment.url) {
+    throw new Error('No URL returned from upload');
+  }
+  return attachment;
+}
@@ -0,0 +1,174 @@
+// Upload rules shared by the composer and the upload route, so both reject
+// the same files with the same messages.
+
+// File type validation - expanded to support more file types
+export const ALLOWED_FILE_TYPES = [
+  // Images
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml',
+  // Documents
+  'text/plain', 'text/csv', 'application/pdf', 'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  // Data
+  'application/json', 'text/html', 'application/xml',
+  // Other common types
+  'application/zip', 'application/x-zip-compressed',
+  'audio/mpeg', 'audio/wav', 'video/mp4',
+  // What browsers record voice messages as
+  'audio/webm', 'audio/ogg', 'audio/mp4'
+];
+
+// Maximum file size, configurable in MB (defaults to 100MB)
+export const MAX_FILE_SIZE = (Number(process.env.NEXT_PUBLIC_MAX_UPLOAD_SIZE_MB) || 100) * 1024 * 1024;
+
+// Files larger than one chunk are sent with the chunked upload protocol
+export const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024;
+
+export type FileValidationErrorCode = 'file_too_large' | 'unsupported_type' | 'type_mismatch';
+
+export type FileValidationError = {
+  code: FileValidationErrorCode;
+  file: string;
+  message: string;
+};
+
+// Coarse content families detected from magic bytes
+type SniffedType =
+  | 'jpeg' | 'png' | 'gif' | 'webp' | 'pdf' | 'zip' | 'ole'
+  | 'mp3' | 'wav' | 'mp4' | 'webm' | 'ogg' | 'executable' | 'text' | 'binary';
+
+// Which detected families each declared MIME type may contain
+const EXPECTED_CONTENT: Record<string, SniffedType[]> = {
+  'image/jpeg': ['jpeg'],
+  'image/png': ['png'],
+  'image/gif': ['gif'],
+  'image/webp': ['webp'],
+  'image/svg+xml': ['text'],
+  'text/plain': ['text'],
+  'text/csv': ['text'],
+  'text/html': ['text'],
+  'application/json': ['text'],
+  'application/xml': ['text'],
+  'application/pdf': ['pdf'],
+  // Office Open XML files are zip containers, legacy Office files are OLE
+  'application/msword': ['ole'],
+  'application/vnd.ms-excel': ['ole'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['zip'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['zip'],
+  'application/zip': ['zip'],
+  'application/x-zip-compressed': ['zip'],
+  'audio/mpeg': ['mp3'],
+  'audio/wav': ['wav'],
+  'video/mp4': ['mp4'],
+  'audio/webm': ['webm'],
+  'audio/ogg': ['ogg'],
+  'audio/mp4': ['mp4'],
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+
+/**
+ * Detects the content family of a file from its leading bytes. Anything
+ * without a known signature is classed as text if it decodes as UTF-8
+ * without control characters, and as unknown binary otherwise.
+ */
+export function sniffContentType(bytes: Uint8Array): SniffedType {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'webp';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WAVE') return 'wav';
+  if (ascii(bytes, 0, 5) === '%PDF-') return 'pdf';
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) || startsWith(bytes, [0x50, 0x4b, 0x05, 0x06])) return 'zip';
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return 'ole';
+  if (ascii(bytes, 0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return 'mp3';
+  if (ascii(bytes, 4, 8) === 'ftyp') return 'mp4';
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return 'webm';
+  if (ascii(bytes, 0, 4) === 'OggS') return 'ogg';
+  if (
+    ascii(bytes, 0, 2) === 'MZ' ||
+    startsWith(bytes, [0x7f, 0x45, 0x4c, 0x46]) ||
+    startsWith(bytes, [0xcf, 0xfa, 0xed, 0xfe]) ||
+    startsWith(bytes, [0xfe, 0xed, 0xfa, 0xcf]) ||
+    ascii(bytes, 0, 2) === '#!'
+  ) {
+    return 'executable';
+  }
+
+  // Only the head is inspected; a multibyte character may be cut at the end
+  const head = bytes.subarray(0, 4096);
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(head.subarray(0, trimPartialUtf8(head)));
+    // eslint-disable-next-line no-control-regex
+    if (!/[\x00-\x08\x0e-\x1f]/.test(text)) return 'text';
+  } catch {
+    // Not valid UTF-8
+  }
+  return 'binary';
+}
+
+// Length of `bytes` without a trailing incomplete UTF-8 sequence
+function trimPartialUtf8(bytes: Uint8Array): number {
+  let end = bytes.length;
+  let i = end - 1;
+  while (i >= 0 && i >= end - 4 && (bytes[i] & 0xc0) === 0x80) i--;
+  if (i >= 0 && bytes[i] >= 0xc0) {
+    const needed = bytes[i] >= 0xf0 ? 4 : bytes[i] >= 0xe0 ? 3 : 2;
+    if (end - i < needed) end = i;
+  }
+  return end;
+}
+
+/**
+ * Checks a file's declared type and size. Used on its own in the browser
+ * and as the first step of server-side validation.
+ */
+export function validateFileMeta(file: { name: string; type: string; size: number }): FileValidationError | null {
+  if (file.size > MAX_FILE_SIZE) {
+    return {
+      code: 'file_too_large',
+      file: file.name,
+      message: `${file.name}: File too large (max ${MAX_FILE_SIZE / 1024 / 1024}MB)`,
+    };
+  }
+
+  if (ALLOWED_FILE_TYPES.length > 0 && !ALLOWED_FILE_TYPES.includes(file.type)) {
+    return {
+      code: 'unsupported_type',
+      file: file.name,
+      message: `${file.name}: File type not supported`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Full server-side validation: type and size, then the file's actual
+ * contents must match the declared type. Executables are always rejected.
+ */
+export function validateFileContents(
+  file: { name: string; type: string; size: number },
+  bytes: Uint8Array
+): FileValidationError | null {
+  const metaError = validateFileMeta(file);
+  if (metaError) return metaError;
+
+  const sniffed = sniffContentType(bytes);
+  const expected = EXPECTED_CONTENT[file.type];
+
+  if (sniffed === 'executable' || (expected && !expected.includes(sniffed))) {
+    return {
+      code: 'type_mismatch',
+      file: file.name,
+      message: `${file.name}: File contents do not match its type`,
+    };
+  }
+
+  return null;
+}